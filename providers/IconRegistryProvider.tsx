@@ -0,0 +1,158 @@
+import type { Accessor, ParentProps } from "solid-js";
+import { createContext, createMemo, createSignal, createUniqueId, DEV, For, Show, untrack, useContext } from "solid-js";
+import SvgHelper from "../ui/helpers/SvgHelper";
+
+export type IconSet = Record<string, string>;
+
+export type IconPackLoader = () => Promise<IconSet>;
+
+type UseIconRegistryReturn = {
+  /** Registers icons by name, under `prefix:` when a prefix is given. */
+  registerIcons: (icons: IconSet, prefix?: string) => void;
+  /** Registers a pack of icons that is loaded the first time one of its `prefix:name` icons is requested. */
+  registerIconPack: (prefix: string, loader: IconPackLoader) => void;
+  loadIconPack: (prefix: string) => Promise<void>;
+  /** Gets the markup of an icon, loading its pack if needed. Undefined until the icon is available. */
+  getIcon: (name: string) => string | undefined;
+  isSpriteMode: Accessor<boolean>;
+  /** Gets the id of the sprite sheet symbol of an icon, adding the icon to the sheet. Undefined until it is available. */
+  getSymbolId: (name: string) => string | undefined;
+};
+
+type IconRegistryContextType = UseIconRegistryReturn;
+
+export const IconRegistryContext = createContext<IconRegistryContextType>();
+
+export const useIconRegistry = (): UseIconRegistryReturn => {
+  const context = useContext(IconRegistryContext);
+  if (!context) {
+    throw new Error("useIconRegistry must be used within IconRegistryProvider");
+  }
+
+  return context;
+};
+
+interface IconRegistryProviderProps extends ParentProps {
+  icons?: IconSet;
+  packs?: Record<string, IconPackLoader>;
+  sprite?: boolean;
+  idPrefix?: string;
+}
+
+const PACK_SEPARATOR = ":";
+
+export const IconRegistryProvider = (props: IconRegistryProviderProps) => {
+  const [icons, setIcons] = createSignal<IconSet>({ ...props.icons });
+  // Names of the icons rendered through the sprite sheet, in the order they were first used
+  const [spriteIconNames, setSpriteIconNames] = createSignal<string[]>([]);
+  const packLoaders = new Map(Object.entries(props.packs ?? {}));
+  const packLoads = new Map<string, Promise<void>>();
+  // Icons are looked up on every re-evaluation, so each missing name is reported once
+  const warnedIconNames = new Set<string>();
+  const idPrefix = props.idPrefix ?? `ac-icon-${createUniqueId()}`;
+
+  const isSpriteMode = () => props.sprite ?? false;
+
+  function registerIcons(newIcons: IconSet, prefix?: string) {
+    const prefixedIcons = prefix
+      ? Object.fromEntries(Object.entries(newIcons).map(([name, svg]) => [prefix + PACK_SEPARATOR + name, svg]))
+      : newIcons;
+    setIcons((icons) => ({ ...icons, ...prefixedIcons }));
+  }
+
+  function registerIconPack(prefix: string, loader: IconPackLoader) {
+    packLoaders.set(prefix, loader);
+  }
+
+  function loadIconPack(prefix: string) {
+    const loader = packLoaders.get(prefix);
+    if (!loader) return Promise.reject(new Error(`Icon pack "${prefix}" is not registered`));
+
+    let load = packLoads.get(prefix);
+    if (!load) {
+      load = loader().then(
+        (packIcons) => registerIcons(packIcons, prefix),
+        (error) => {
+          // Allow retrying a pack that failed to load
+          packLoads.delete(prefix);
+          throw error;
+        },
+      );
+      packLoads.set(prefix, load);
+    }
+
+    return load;
+  }
+
+  function getIcon(name: string) {
+    const svg = icons()[name];
+    if (svg !== undefined) return svg;
+
+    const separatorIndex = name.indexOf(PACK_SEPARATOR);
+    const prefix = separatorIndex === -1 ? undefined : name.slice(0, separatorIndex);
+    if (prefix && packLoaders.has(prefix)) {
+      if (!packLoads.has(prefix))
+        loadIconPack(prefix).catch((error) =>
+          //eslint-disable-next-line no-console
+          console.warn(`IconRegistryProvider: failed to load icon pack "${prefix}"`, error),
+        );
+      return undefined;
+    }
+
+    if (DEV && !warnedIconNames.has(name)) {
+      warnedIconNames.add(name);
+      //eslint-disable-next-line no-console
+      console.warn(`IconRegistryProvider: icon "${name}" is not registered`);
+    }
+    return undefined;
+  }
+
+  function getSymbolId(name: string) {
+    if (getIcon(name) === undefined) return undefined;
+
+    if (!untrack(spriteIconNames).includes(name)) setSpriteIconNames((names) => [...names, name]);
+    return toSymbolId(name);
+  }
+
+  function toSymbolId(name: string) {
+    return `${idPrefix}-${name.replace(/[^\w-]/g, "-")}`;
+  }
+
+  const contextValue: UseIconRegistryReturn = {
+    registerIcons,
+    registerIconPack,
+    loadIconPack,
+    getIcon,
+    isSpriteMode,
+    getSymbolId,
+  };
+
+  return (
+    <IconRegistryContext.Provider value={contextValue}>
+      <Show when={isSpriteMode()}>
+        {/* Hidden by size rather than display, as gradients inside an undisplayed sprite do not render */}
+        <svg
+          aria-hidden="true"
+          style={{ position: "absolute", width: "0", height: "0", overflow: "hidden" }}
+          data-icon-sprite={idPrefix}
+        >
+          <For each={spriteIconNames()}>
+            {(name) => {
+              // Colors are left to each icon's `<use>` element, so the symbols keep the colors they were drawn with
+              const parsedSvg = createMemo(() => SvgHelper.parse(icons()[name], { preserveFill: true }));
+              return (
+                <symbol
+                  id={toSymbolId(name)}
+                  viewBox={parsedSvg().viewBox}
+                  {...parsedSvg().attributes}
+                  innerHTML={parsedSvg().content}
+                />
+              );
+            }}
+          </For>
+        </svg>
+      </Show>
+      {props.children}
+    </IconRegistryContext.Provider>
+  );
+};
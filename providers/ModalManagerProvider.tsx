@@ -0,0 +1,131 @@
+import type { Accessor, ParentProps } from "solid-js";
+import { createContext, createMemo, createSignal, useContext } from "solid-js";
+
+export type ModalWindow = {
+  id: string;
+  title?: string;
+  isMinimized?: boolean;
+  element?: HTMLElement;
+  close: () => void;
+  minimize?: () => void;
+  restore?: () => void;
+};
+
+type UseModalManagerReturn = {
+  /** The registered windows, in registration order. */
+  windows: Accessor<ModalWindow[]>;
+  /** The id of the topmost window that is not minimized, if any. */
+  activeId: Accessor<string | undefined>;
+  register: (window: ModalWindow) => void;
+  unregister: (id: string) => void;
+  /** Raises a window, restoring it when minimized, and moves the focus into it. */
+  focus: (id: string) => void;
+  isActive: (id: string) => boolean;
+  getZIndex: (id: string) => number;
+  closeAll: () => void;
+  /** Activates the next or previous window that is not minimized, and moves the focus into it. */
+  cycle: (direction?: 1 | -1) => void;
+};
+
+type ModalManagerContextType = UseModalManagerReturn;
+
+export const ModalManagerContext = createContext<ModalManagerContextType>();
+
+export const useModalManager = (): UseModalManagerReturn => {
+  const context = useContext(ModalManagerContext);
+  if (!context) {
+    throw new Error("useModalManager must be used within ModalManagerProvider");
+  }
+
+  return context;
+};
+
+interface ModalManagerProviderProps extends ParentProps {
+  baseZIndex?: number;
+}
+
+const DEFAULT_BASE_Z_INDEX = 10;
+
+export const ModalManagerProvider = (props: ModalManagerProviderProps) => {
+  const [windows, setWindows] = createSignal<ModalWindow[]>([]);
+  // Window ids ordered from the bottom of the stack to the top
+  const [stack, setStack] = createSignal<string[]>([]);
+
+  const activeId = createMemo(() => stack().findLast((id) => !findWindow(id)?.isMinimized));
+
+  function findWindow(id: string) {
+    return windows().find((w) => w.id === id);
+  }
+
+  function register(window: ModalWindow) {
+    setWindows((windows) => [...windows.filter((w) => w.id !== window.id), window]);
+    setStack((stack) => [...stack.filter((id) => id !== window.id), window.id]);
+  }
+
+  function unregister(id: string) {
+    setWindows((windows) => windows.filter((w) => w.id !== id));
+    setStack((stack) => stack.filter((stackId) => stackId !== id));
+  }
+
+  function focus(id: string) {
+    const window = findWindow(id);
+    if (!window) return;
+
+    if (window.isMinimized) window.restore?.();
+    if (activeId() !== id) setStack((stack) => [...stack.filter((stackId) => stackId !== id), id]);
+
+    focusElement(window);
+  }
+
+  function focusElement(window: ModalWindow | undefined) {
+    // Keep the focus where it is when it is already inside the window, such as on the control that raised it
+    if (!window?.element || window.element.contains(document.activeElement)) return;
+    window.element.focus();
+  }
+
+  function isActive(id: string) {
+    return activeId() === id;
+  }
+
+  function getZIndex(id: string) {
+    const baseZIndex = props.baseZIndex ?? DEFAULT_BASE_Z_INDEX;
+    return baseZIndex + Math.max(stack().indexOf(id), 0);
+  }
+
+  function closeAll() {
+    // Copy first, closing a window unregisters it and mutates the list
+    for (const window of [...windows()].reverse()) window.close();
+  }
+
+  function cycle(direction: 1 | -1 = 1) {
+    const current = stack();
+    // Minimized windows are hidden, cycling through them would not change the active window
+    const visibleIds = current.filter((id) => !findWindow(id)?.isMinimized);
+    if (visibleIds.length < 2) return;
+
+    // Forward raises the bottom visible window, backward sends the active window to the bottom
+    if (direction === 1) {
+      const raisedId = visibleIds[0];
+      setStack([...current.filter((id) => id !== raisedId), raisedId]);
+    } else {
+      const loweredId = visibleIds.at(-1)!;
+      setStack([loweredId, ...current.filter((id) => id !== loweredId)]);
+    }
+
+    focusElement(findWindow(activeId()!));
+  }
+
+  const contextValue: UseModalManagerReturn = {
+    windows,
+    activeId,
+    register,
+    unregister,
+    focus,
+    isActive,
+    getZIndex,
+    closeAll,
+    cycle,
+  };
+
+  return <ModalManagerContext.Provider value={contextValue}>{props.children}</ModalManagerContext.Provider>;
+};
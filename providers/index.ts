@@ -1,2 +1,4 @@
 export { I18nProvider, useI18n } from "./I18nProvider";
+export { IconRegistryProvider, useIconRegistry } from "./IconRegistryProvider";
 export { IoCProvider, useService } from "./IoCProvider";
+export { ModalManagerProvider, useModalManager } from "./ModalManagerProvider";
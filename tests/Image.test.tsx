@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import type { ComponentProps } from "solid-js";
+import { render } from "solid-js/web";
+import Image from "../ui/components/Image";
+
+let dispose: (() => void) | undefined;
+
+afterEach(() => {
+  dispose?.();
+  dispose = undefined;
+});
+
+function renderImage(props: ComponentProps<typeof Image>) {
+  const container = document.createElement("div");
+  dispose = render(() => <Image {...props} />, container);
+  return container;
+}
+
+describe("Image", () => {
+  test("generates a source per format before the generated srcset", () => {
+    const container = renderImage({ src: "/a.jpg", alt: "", widths: [320], formats: ["avif", "webp"] });
+
+    const types = Array.from(container.querySelectorAll("source"), (source) => source.getAttribute("type"));
+    expect(types).toEqual(["image/avif", "image/webp"]);
+    expect(container.querySelector("img")!.getAttribute("srcset")).toBe("/a.jpg?w=320 320w");
+  });
+
+  test("does not generate format sources that would override a given srcset", () => {
+    const container = renderImage({
+      src: "/a.jpg",
+      alt: "",
+      srcset: "/a-small.jpg 320w",
+      widths: [320],
+      formats: ["avif", "webp"],
+    });
+
+    expect(container.querySelector("picture")).toBeNull();
+    expect(container.querySelector("img")!.getAttribute("srcset")).toBe("/a-small.jpg 320w");
+  });
+});
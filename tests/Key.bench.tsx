@@ -0,0 +1,131 @@
+import { batch, createSignal, For, Index, type JSX } from "solid-js";
+import { render } from "solid-js/web";
+import Key from "../ui/components/Key";
+
+type Row = { id: number; label: string };
+
+type ListComponent = (props: { each: Row[]; children: (row: () => Row) => JSX.Element }) => JSX.Element;
+
+type Operation = {
+  name: string;
+  /** Prepares the list before the measured update. */
+  setup: (nextId: () => number) => Row[];
+  update: (rows: Row[], nextId: () => number) => Row[];
+};
+
+const ROW_COUNT = 1_000;
+const ITERATIONS = 20;
+const WARMUP_ITERATIONS = 3;
+
+const LIST_COMPONENTS: Record<string, ListComponent> = {
+  Key: (props) => (
+    <Key each={props.each} by={(row) => row.id}>
+      {(row) => props.children(row)}
+    </Key>
+  ),
+  For: (props) => <For each={props.each}>{(row) => props.children(() => row)}</For>,
+  Index: (props) => <Index each={props.each}>{(row) => props.children(row)}</Index>,
+};
+
+const OPERATIONS: Operation[] = [
+  { name: `create ${ROW_COUNT} rows`, setup: () => [], update: (_, nextId) => createRows(ROW_COUNT, nextId) },
+  {
+    name: `replace ${ROW_COUNT} rows`,
+    setup: (nextId) => createRows(ROW_COUNT, nextId),
+    update: (_, nextId) => createRows(ROW_COUNT, nextId),
+  },
+  {
+    name: `append ${ROW_COUNT} rows`,
+    setup: (nextId) => createRows(ROW_COUNT, nextId),
+    update: (rows, nextId) => [...rows, ...createRows(ROW_COUNT, nextId)],
+  },
+  {
+    name: "update every 10th row",
+    setup: (nextId) => createRows(ROW_COUNT, nextId),
+    update: (rows) => rows.map((row, index) => (index % 10 === 0 ? { ...row, label: `${row.label} !!!` } : row)),
+  },
+  {
+    name: "swap two rows",
+    setup: (nextId) => createRows(ROW_COUNT, nextId),
+    update: (rows) => {
+      const swapped = [...rows];
+      [swapped[1], swapped[ROW_COUNT - 2]] = [swapped[ROW_COUNT - 2], swapped[1]];
+      return swapped;
+    },
+  },
+  {
+    name: "remove one row",
+    setup: (nextId) => createRows(ROW_COUNT, nextId),
+    update: (rows) => rows.filter((_, index) => index !== ROW_COUNT / 2),
+  },
+  {
+    name: "reverse rows",
+    setup: (nextId) => createRows(ROW_COUNT, nextId),
+    update: (rows) => [...rows].reverse(),
+  },
+  { name: "clear rows", setup: (nextId) => createRows(ROW_COUNT, nextId), update: () => [] },
+];
+
+/**
+ * Compares `Key` with Solid's `For` and `Index` on common list operations, in the spirit of js-framework-benchmark.
+ * Each operation is measured from a fresh render, and the median of the iterations is reported in milliseconds.
+ *
+ * Run with `bun run bench`.
+ */
+function runBenchmark() {
+  const results: Record<string, Record<string, string>> = {};
+
+  for (const operation of OPERATIONS) {
+    results[operation.name] = {};
+
+    for (const [componentName, ListComponent] of Object.entries(LIST_COMPONENTS)) {
+      const durations: number[] = [];
+
+      for (let iteration = 0; iteration < WARMUP_ITERATIONS + ITERATIONS; iteration++) {
+        const duration = measure(ListComponent, operation);
+        if (iteration >= WARMUP_ITERATIONS) durations.push(duration);
+      }
+
+      results[operation.name][componentName] = median(durations).toFixed(2);
+    }
+  }
+
+  console.table(results);
+}
+
+function measure(ListComponent: ListComponent, operation: Operation) {
+  let id = 0;
+  const nextId = () => ++id;
+  const [rows, setRows] = createSignal(operation.setup(nextId));
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+
+  const dispose = render(
+    () => <ListComponent each={rows()}>{(row) => <div class="row">{row().label}</div>}</ListComponent>,
+    container,
+  );
+
+  const nextRows = operation.update(rows(), nextId);
+  const start = performance.now();
+  batch(() => setRows(nextRows));
+  const duration = performance.now() - start;
+
+  dispose();
+  container.remove();
+  return duration;
+}
+
+function createRows(count: number, nextId: () => number): Row[] {
+  return Array.from({ length: count }, () => {
+    const id = nextId();
+    return { id, label: `row ${id}` };
+  });
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+runBenchmark();
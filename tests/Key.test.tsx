@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { createSignal, onCleanup } from "solid-js";
+import { render } from "solid-js/web";
+import Key from "../ui/components/Key";
+
+type Row = { id: number; label: string };
+
+let dispose: (() => void) | undefined;
+
+afterEach(() => {
+  dispose?.();
+  dispose = undefined;
+});
+
+function rows(...ids: number[]): Row[] {
+  return ids.map((id) => ({ id, label: `row ${id}` }));
+}
+
+/** Renders a `Key` list of rows, recording the nodes created and disposed by id. */
+function renderRows(initialRows: Row[], fallback?: string) {
+  const [list, setList] = createSignal(initialRows);
+  const created: number[] = [];
+  const disposed: number[] = [];
+  const container = document.createElement("div");
+
+  dispose = render(
+    () => (
+      <Key each={list()} by={(row) => row.id} fallback={fallback}>
+        {(row, index) => {
+          const id = row().id;
+          created.push(id);
+          onCleanup(() => disposed.push(id));
+
+          return (
+            <span data-id={id}>
+              {index()}:{row().label}
+            </span>
+          );
+        }}
+      </Key>
+    ),
+    container,
+  );
+
+  const nodes = () => Array.from(container.querySelectorAll("span"));
+  const nodeById = (id: number) => container.querySelector(`[data-id="${id}"]`);
+  const texts = () => nodes().map((node) => node.textContent);
+
+  return { container, setList, created, disposed, nodes, nodeById, texts };
+}
+
+describe("Key", () => {
+  test("renders the items in order", () => {
+    const { texts } = renderRows(rows(1, 2, 3));
+
+    expect(texts()).toEqual(["0:row 1", "1:row 2", "2:row 3"]);
+  });
+
+  test("creates nodes only for inserted keys", () => {
+    const { setList, created, nodeById, texts } = renderRows(rows(1, 2, 3));
+    const firstNode = nodeById(1);
+    const lastNode = nodeById(3);
+
+    setList(rows(0, 1, 2, 4, 3, 5));
+
+    expect(texts()).toEqual(["0:row 0", "1:row 1", "2:row 2", "3:row 4", "4:row 3", "5:row 5"]);
+    expect(created).toEqual([1, 2, 3, 0, 4, 5]);
+    expect(nodeById(1)).toBe(firstNode);
+    expect(nodeById(3)).toBe(lastNode);
+  });
+
+  test("moves existing nodes and updates their indices", () => {
+    const { setList, created, nodeById, texts } = renderRows(rows(1, 2, 3, 4));
+    const nodesBefore = [1, 2, 3, 4].map(nodeById);
+
+    setList(rows(4, 2, 3, 1));
+
+    expect(texts()).toEqual(["0:row 4", "1:row 2", "2:row 3", "3:row 1"]);
+    expect([1, 2, 3, 4].map(nodeById)).toEqual(nodesBefore);
+    expect(created).toEqual([1, 2, 3, 4]);
+  });
+
+  test("updates the item of an existing key without recreating its node", () => {
+    const { setList, created, nodeById, texts } = renderRows(rows(1, 2));
+    const node = nodeById(2);
+
+    setList([
+      { id: 1, label: "row 1" },
+      { id: 2, label: "renamed" },
+    ]);
+
+    expect(texts()).toEqual(["0:row 1", "1:renamed"]);
+    expect(nodeById(2)).toBe(node);
+    expect(created).toEqual([1, 2]);
+  });
+
+  test("disposes only the removed nodes", () => {
+    const { setList, disposed, texts } = renderRows(rows(1, 2, 3, 4));
+
+    setList(rows(1, 3));
+
+    expect(texts()).toEqual(["0:row 1", "1:row 3"]);
+    expect(disposed.sort()).toEqual([2, 4]);
+  });
+
+  test("disposes a removed key once, and creates it again when it comes back", () => {
+    const { setList, created, disposed } = renderRows(rows(1, 2));
+
+    setList(rows(1));
+    setList(rows(1));
+    setList(rows(1, 2));
+
+    expect(disposed).toEqual([2]);
+    expect(created).toEqual([1, 2, 2]);
+  });
+
+  test("disposes every node when unmounted", () => {
+    const { disposed } = renderRows(rows(1, 2, 3));
+
+    dispose!();
+    dispose = undefined;
+
+    expect(disposed.sort()).toEqual([1, 2, 3]);
+  });
+
+  test("renders and warns about duplicate keys", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const { texts, created, disposed, setList } = renderRows([
+        { id: 1, label: "first" },
+        { id: 2, label: "other" },
+        { id: 1, label: "second" },
+      ]);
+
+      expect(texts()).toEqual(["0:first", "1:other", "2:second"]);
+      expect(created).toEqual([1, 2, 1]);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain('duplicate key "1" at indices 0, 2');
+
+      // The occurrence left over keeps the node of the first occurrence
+      setList([{ id: 1, label: "only" }]);
+
+      expect(texts()).toEqual(["0:only"]);
+      expect(disposed.sort()).toEqual([1, 2]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test("renders the fallback while the list is empty", () => {
+    const { container, setList, texts } = renderRows([], "No rows");
+
+    expect(container.textContent).toBe("No rows");
+
+    setList(rows(1));
+    expect(texts()).toEqual(["0:row 1"]);
+    expect(container.textContent).not.toContain("No rows");
+
+    setList([]);
+    expect(container.textContent).toBe("No rows");
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import ResponsiveImageHelper from "../ui/helpers/ResponsiveImageHelper";
+
+describe("ResponsiveImageHelper.getSrcset", () => {
+  test("orders the widths and removes duplicates and non-positive widths", () => {
+    expect(ResponsiveImageHelper.getSrcset("/a.jpg", [640, 320, 640, 0, -1])).toBe(
+      "/a.jpg?w=320 320w, /a.jpg?w=640 640w",
+    );
+  });
+
+  test("keeps the query and hash of the base URL", () => {
+    expect(ResponsiveImageHelper.getSrcset("/a.jpg?x=1#h", [320])).toBe("/a.jpg?x=1&w=320#h 320w");
+  });
+
+  test("builds the URLs with a custom URL builder", () => {
+    const urlBuilder = (baseUrl: string, width: number, format?: string) => `${baseUrl}/${width}/${format}`;
+
+    expect(ResponsiveImageHelper.getSrcset("/a", [320], urlBuilder, "webp")).toBe("/a/320/webp 320w");
+  });
+});
+
+describe("ResponsiveImageHelper.getSizes", () => {
+  test("puts the widest breakpoint first and ends with the default width", () => {
+    expect(
+      ResponsiveImageHelper.getSizes([
+        { minWidth: 640, width: "50vw" },
+        { minWidth: 1024, width: 300 },
+      ]),
+    ).toBe("(min-width: 1024px) 300px, (min-width: 640px) 50vw, 100vw");
+  });
+
+  test("uses the given default width", () => {
+    expect(ResponsiveImageHelper.getSizes([], 200)).toBe("200px");
+  });
+});
+
+describe("ResponsiveImageHelper.getSources", () => {
+  test("generates a typed source per format, in order", () => {
+    const sources = ResponsiveImageHelper.getSources("/a.jpg", {
+      widths: [320],
+      formats: ["avif", "webp"],
+      media: "(min-width: 640px)",
+      sizes: "50vw",
+    });
+
+    expect(sources).toEqual([
+      { media: "(min-width: 640px)", srcset: "/a.jpg?w=320&format=avif 320w", sizes: "50vw", type: "image/avif" },
+      { media: "(min-width: 640px)", srcset: "/a.jpg?w=320&format=webp 320w", sizes: "50vw", type: "image/webp" },
+    ]);
+  });
+
+  test("generates a single untyped source without formats", () => {
+    expect(ResponsiveImageHelper.getSources("/a.jpg", { widths: [320] })).toEqual([
+      { media: undefined, srcset: "/a.jpg?w=320 320w", sizes: undefined, type: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import SvgHelper from "../ui/helpers/SvgHelper";
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+
+function svg(content: string, attributes = "") {
+  return `<svg xmlns="${SVG_NAMESPACE}" xmlns:xlink="http://www.w3.org/1999/xlink" ${attributes}>${content}</svg>`;
+}
+
+/** Parses the markup into a detached element, to check the sanitized content the way the HTML parser sees it. */
+function render(content: string) {
+  const element = document.createElementNS(SVG_NAMESPACE, "svg");
+  element.innerHTML = content;
+  return element;
+}
+
+describe("SvgHelper.sanitize", () => {
+  test("removes scripts and embedded documents", () => {
+    const { content } = SvgHelper.parse(
+      svg(`<script>alert(1)</script><foreignObject><div>html</div></foreignObject><path d="M0 0h1"/>`),
+    );
+
+    const element = render(content);
+    expect(element.querySelector("script")).toBeNull();
+    expect(element.querySelector("foreignObject")).toBeNull();
+    expect(element.querySelector("path")).not.toBeNull();
+  });
+
+  test("removes event handlers", () => {
+    const { content } = SvgHelper.parse(svg(`<path onclick="alert(1)" onmouseover="alert(2)" d="M0 0h1"/>`));
+
+    const path = render(content).querySelector("path")!;
+    expect(path.hasAttribute("onclick")).toBe(false);
+    expect(path.hasAttribute("onmouseover")).toBe(false);
+    expect(path.getAttribute("d")).toBe("M0 0h1");
+  });
+
+  test("removes external references and keeps fragment references", () => {
+    const { content } = SvgHelper.parse(
+      svg(
+        `<a href="javascript:alert(1)"><use xlink:href="https://example.com/icons.svg#a"/></a>` +
+          `<use href="#shape"/><a id="link"><set attributeName="href" to="javascript:alert(1)"/></a>`,
+      ),
+    );
+
+    const element = render(content);
+    expect(element.querySelector("a")!.hasAttribute("href")).toBe(false);
+    expect(element.querySelector("use")!.hasAttribute("xlink:href")).toBe(false);
+    expect(element.querySelectorAll("use")[1].getAttribute("href")).toBe("#shape");
+    expect(element.querySelector("set")).toBeNull();
+  });
+
+  test("removes styles loading external resources", () => {
+    const { content } = SvgHelper.parse(
+      svg(
+        `<style>@import "https://example.com/a.css";</style>` +
+          `<path style="fill: url(https://example.com/a.png)" d="M0 0h1"/>` +
+          `<path style="fill: url(#gradient)" d="M0 0h1"/>`,
+      ),
+    );
+
+    const element = render(content);
+    expect(element.querySelector("style")).toBeNull();
+    const [externalPath, gradientPath] = Array.from(element.querySelectorAll("path"));
+    expect(externalPath.hasAttribute("style")).toBe(false);
+    expect(gradientPath.getAttribute("style")).toContain("url(#gradient)");
+  });
+
+  test("removes HTML elements that would end the SVG content when parsed as HTML", () => {
+    const { content } = SvgHelper.parse(
+      svg(
+        `<p><img srcset="https://evil.example/t.png 1x"/><form action="javascript:alert(1)"><button>go</button></form></p>` +
+          `<div xmlns="http://www.w3.org/1999/xhtml"><img src="https://evil.example/t.png"/></div><path d="M0 0h1"/>`,
+      ),
+    );
+
+    expect(content).not.toMatch(/<(p|img|form|button|div)\b/);
+    const element = render(content);
+    expect(element.querySelector("img, form, button")).toBeNull();
+    expect(element.querySelector("path")).not.toBeNull();
+  });
+
+  test("removes attributes outside of the SVG attributes", () => {
+    const { content } = SvgHelper.parse(
+      svg(
+        `<path srcset="https://evil.example/t.png 1x" action="javascript:alert(1)" formaction="javascript:alert(1)" ` +
+          `poster="https://evil.example/t.png" data="https://evil.example/t.svg" data-layer="primary" d="M0 0h1"/>` +
+          `<set attributeName="srcset" to="https://evil.example/t.png 1x"/>`,
+      ),
+    );
+
+    const path = render(content).querySelector("path")!;
+    for (const name of ["srcset", "action", "formaction", "poster", "data"])
+      expect(path.hasAttribute(name)).toBe(false);
+    expect(path.getAttribute("data-layer")).toBe("primary");
+    expect(path.getAttribute("d")).toBe("M0 0h1");
+    expect(content).not.toContain("<set");
+  });
+
+  test("removes styles with script URLs", () => {
+    const { content } = SvgHelper.parse(svg(`<path style="fill: url('javascript:alert(1)')" d="M0 0h1"/>`));
+
+    expect(render(content).querySelector("path")!.hasAttribute("style")).toBe(false);
+  });
+
+  test("removes comments and processing instructions that would hide markup from it", () => {
+    // The XML parser of the test environment rejects these nodes, so the tree is built directly
+    const root = document.createElementNS(SVG_NAMESPACE, "svg");
+    root.appendChild(document.createProcessingInstruction("xml-stylesheet", "<image href=x onerror=alert(1)>"));
+    root.appendChild(document.createComment("<img src=x onerror=alert(1)>"));
+    root.appendChild(document.createElementNS(SVG_NAMESPACE, "path"));
+
+    SvgHelper.sanitize(root);
+
+    expect(root.childNodes.length).toBe(1);
+    expect(render(root.innerHTML).querySelector("image, img")).toBeNull();
+  });
+});
+
+describe("SvgHelper.recolor", () => {
+  test("replaces hardcoded fills in styles with the inherited color", () => {
+    const { attributes, content } = SvgHelper.parse(svg(`<path style="fill: #ff0000" fill="#00ff00" d="M0 0h1"/>`));
+
+    const path = render(content).querySelector("path")!;
+    expect(path.hasAttribute("fill")).toBe(false);
+    expect(path.getAttribute("style") ?? "").not.toContain("fill");
+    expect(attributes.fill).toBe("currentColor");
+  });
+
+  test("replaces hardcoded strokes with currentColor", () => {
+    const { content } = SvgHelper.parse(svg(`<path stroke="#ff0000" style="stroke: blue" d="M0 0h1"/>`));
+
+    const path = render(content).querySelector("path")!;
+    expect(path.getAttribute("stroke")).toBe("currentColor");
+    expect(path.getAttribute("style")?.toLowerCase()).toContain("stroke: currentcolor");
+  });
+
+  test("replaces currentColor with the fill color and keeps other colors", () => {
+    const { attributes, content } = SvgHelper.parse(svg(`<path stroke="currentColor" fill="#ff0000" d="M0 0h1"/>`), {
+      fillColor: "blue",
+    });
+
+    const path = render(content).querySelector("path")!;
+    expect(path.getAttribute("stroke")).toBe("blue");
+    expect(path.getAttribute("fill")).toBe("#ff0000");
+    expect(attributes.fill).toBe("blue");
+  });
+});
+
+describe("SvgHelper.parse", () => {
+  test("returns empty content and warns for malformed markup", () => {
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const parsedSvg = SvgHelper.parse(svg(`<path d=M0 0h1/>`));
+
+      expect(parsedSvg).toEqual({ attributes: {}, content: "" });
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain("SvgHelper: invalid SVG markup");
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import WindowSnapHelper from "../ui/helpers/WindowSnapHelper";
+
+const POINTER = { x: 500, y: 400 };
+
+describe("WindowSnapHelper.getSnapTarget", () => {
+  test("snaps to the edges of a window beside it", () => {
+    const target = WindowSnapHelper.getSnapTarget(POINTER, { top: 105, left: 305, width: 200, height: 100 }, [
+      { top: 100, left: 100, width: 200, height: 100 },
+    ]);
+
+    expect(target).toEqual({ kind: "snap", rect: { top: 100, left: 300, width: 200, height: 100 } });
+  });
+
+  test("does not snap to the side edges of a window above or below it", () => {
+    const rect = { top: 100, left: 305, width: 200, height: 100 };
+
+    expect(
+      WindowSnapHelper.getSnapTarget(POINTER, rect, [{ top: 500, left: 100, width: 200, height: 100 }]),
+    ).toBeNull();
+  });
+
+  test("does not snap to the top and bottom edges of a window to its left or right", () => {
+    const rect = { top: 203, left: 100, width: 200, height: 100 };
+
+    expect(
+      WindowSnapHelper.getSnapTarget(POINTER, rect, [{ top: 100, left: 600, width: 200, height: 100 }]),
+    ).toBeNull();
+  });
+
+  test("snaps windows stacked in a column to each other", () => {
+    const target = WindowSnapHelper.getSnapTarget(POINTER, { top: 204, left: 104, width: 200, height: 100 }, [
+      { top: 100, left: 100, width: 200, height: 100 },
+    ]);
+
+    expect(target).toEqual({ kind: "snap", rect: { top: 200, left: 100, width: 200, height: 100 } });
+  });
+});
@@ -0,0 +1,21 @@
+import { transformAsync } from "@babel/core";
+import { GlobalRegistrator } from "@happy-dom/global-registrator";
+import { plugin } from "bun";
+
+GlobalRegistrator.register();
+
+// Compile JSX with Solid's DOM expressions, as Bun's own JSX transform targets React-like runtimes
+plugin({
+  name: "solid-jsx",
+  setup(build) {
+    build.onLoad({ filter: /\.[jt]sx$/ }, async (args) => {
+      const source = await Bun.file(args.path).text();
+      const result = await transformAsync(source, {
+        filename: args.path,
+        presets: [["babel-preset-solid", { generate: "dom" }], ["@babel/preset-typescript"]],
+      });
+
+      return { contents: result!.code!, loader: "js" };
+    });
+  },
+});
@@ -0,0 +1,245 @@
+import {
+  createEffect,
+  createMemo,
+  createRoot,
+  createSignal,
+  on,
+  onCleanup,
+  untrack,
+  type Accessor,
+  type JSX,
+} from "solid-js";
+import type { KeyableType, NodeEntry } from "./Key";
+
+type AnimatedNodeEntry<TItem> = NodeEntry<TItem> & { moveAnimation?: Animation };
+
+type ExitingEntry<TItem> = {
+  entry: AnimatedNodeEntry<TItem>;
+  /** The index the node had before it was removed, where it stays until its exit animation finishes. */
+  index: number;
+  /** The layout box of the node before it was removed, relative to its offset parent. */
+  offset?: { top: number; left: number; width: number; height: number };
+  /** The inline style of the node before it was taken out of flow, restored if the node comes back. */
+  style?: string;
+  animation?: Animation;
+};
+
+type AnimatedKeyProps<TItem, TKey extends KeyableType> = {
+  each?: TItem[];
+  by: (item: TItem) => TKey;
+  children: (item: Accessor<TItem>, index: Accessor<number>) => JSX.Element;
+  enter?: Keyframe[];
+  exit?: Keyframe[];
+  duration?: number;
+  easing?: string;
+  animateMove?: boolean;
+  appear?: boolean;
+};
+
+const DEFAULT_ENTER_KEYFRAMES: Keyframe[] = [{ opacity: 0 }, { opacity: 1 }];
+const DEFAULT_EXIT_KEYFRAMES: Keyframe[] = [{ opacity: 1 }, { opacity: 0 }];
+const DEFAULT_DURATION = 200;
+const DEFAULT_EASING = "ease-in-out";
+
+/**
+ * A variant of `Key` that animates items entering, leaving, and moving within the list.
+ *
+ * Removed items stay mounted at their last index until their exit animation finishes, taken out of flow so the
+ * remaining items can move into place right away. Items whose index changes are animated from their previous position
+ * with the FLIP technique. Each item must render a single element, and the list container should be positioned so the
+ * leaving items keep their place. Animations are skipped when the user prefers reduced motion.
+ *
+ * @example
+ *   <AnimatedKey each={items()} by={(item) => item.id}>
+ *     {(item) => <li>{item().name}</li>}
+ *   </AnimatedKey>;
+ *
+ * @param props - The component properties.
+ * @param props.each - The list of items to map over.
+ * @param props.by - The function that returns the key for each item.
+ * @param props.children - The render function that receives the item and index, and returns a single element.
+ * @param props.enter - The keyframes of entering items. Defaults to a fade in.
+ * @param props.exit - The keyframes of leaving items. Defaults to a fade out.
+ * @param props.duration - The duration of the animations in milliseconds. Defaults to 200.
+ * @param props.easing - The easing of the animations. Defaults to `ease-in-out`.
+ * @param props.animateMove - Whether to animate items to their new position when their index changes. Defaults to true.
+ * @param props.appear - Whether to animate the items of the first render. Defaults to false.
+ */
+export default function AnimatedKey<TItem, TKey extends KeyableType>(
+  props: AnimatedKeyProps<TItem, TKey>,
+): JSX.Element {
+  let previousNodeEntries = new Map<TKey, AnimatedNodeEntry<TItem>>();
+  const exitingEntries = new Map<TKey, ExitingEntry<TItem>>();
+  // Bumped when a leaving node finishes its exit animation and can be unmounted
+  const [exitVersion, setExitVersion] = createSignal(0);
+
+  let isFirstRender = true;
+  let enteringEntries: AnimatedNodeEntry<TItem>[] = [];
+  let startingExits: ExitingEntry<TItem>[] = [];
+  // Positions of the moved nodes before the DOM update, the "first" step of FLIP
+  let firstRects = new Map<AnimatedNodeEntry<TItem>, DOMRect>();
+
+  onCleanup(() => {
+    for (const entry of previousNodeEntries.values()) entry.dispose();
+    for (const exiting of exitingEntries.values()) exiting.entry.dispose();
+  });
+
+  const memoized = createMemo(() => {
+    const list = props.each || [];
+    exitVersion();
+
+    return untrack(() => {
+      const mapped: JSX.Element[] = [];
+      const newNodes = new Map<TKey, AnimatedNodeEntry<TItem>>();
+      const animateMove = (props.animateMove ?? true) && !prefersReducedMotion();
+      enteringEntries = [];
+      startingExits = [];
+      firstRects = new Map();
+
+      for (let i = 0; i < list.length; i++) {
+        const listItem = list[i];
+        const keyValue = props.by(listItem);
+        const entry = previousNodeEntries.get(keyValue) ?? reviveExitingEntry(keyValue);
+
+        if (!entry) {
+          mapped[i] = createRoot((dispose) => {
+            const index = createSignal<number>(i);
+            const item = createSignal<TItem>(listItem);
+            const result = props.children(item[0], index[0]);
+            const newEntry = { index, item, result, dispose };
+            newNodes.set(keyValue, newEntry);
+            if (!isFirstRender || props.appear) enteringEntries.push(newEntry);
+            return result;
+          });
+          continue;
+        }
+
+        const element = getElement(entry.result);
+        if (animateMove && element && entry.index[0]() !== i) firstRects.set(entry, element.getBoundingClientRect());
+
+        entry.index[1](i);
+        entry.item[1](listItem);
+        mapped[i] = entry.result;
+        newNodes.set(keyValue, entry);
+      }
+
+      for (const [key, entry] of previousNodeEntries) {
+        if (newNodes.has(key)) continue;
+
+        const element = getElement(entry.result);
+        const exiting: ExitingEntry<TItem> = {
+          entry,
+          index: entry.index[0](),
+          offset: element && {
+            top: element.offsetTop,
+            left: element.offsetLeft,
+            width: element.offsetWidth,
+            height: element.offsetHeight,
+          },
+        };
+        exitingEntries.set(key, exiting);
+        startingExits.push(exiting);
+      }
+
+      // Keep the leaving nodes mounted at their last index
+      const exitingList = [...exitingEntries.values()].sort((a, b) => a.index - b.index);
+      for (const exiting of exitingList) mapped.splice(Math.min(exiting.index, mapped.length), 0, exiting.entry.result);
+
+      previousNodeEntries = newNodes;
+      isFirstRender = false;
+      return mapped;
+    });
+  });
+
+  // Runs after the DOM is updated, the "last" step of FLIP
+  createEffect(
+    on(memoized, () => {
+      const reducedMotion = prefersReducedMotion();
+      const options: KeyframeAnimationOptions = {
+        duration: props.duration ?? DEFAULT_DURATION,
+        easing: props.easing ?? DEFAULT_EASING,
+      };
+
+      for (const exiting of startingExits) startExit(exiting, reducedMotion, options);
+
+      for (const [entry, first] of firstRects) {
+        const element = getElement(entry.result)!;
+        const last = element.getBoundingClientRect();
+        const deltaX = first.left - last.left;
+        const deltaY = first.top - last.top;
+        if (!deltaX && !deltaY) continue;
+
+        entry.moveAnimation?.cancel();
+        entry.moveAnimation = element.animate(
+          [{ transform: `translate(${deltaX}px, ${deltaY}px)` }, { transform: "none" }],
+          options,
+        );
+      }
+
+      if (!reducedMotion)
+        for (const entry of enteringEntries)
+          getElement(entry.result)?.animate(props.enter ?? DEFAULT_ENTER_KEYFRAMES, options);
+    }),
+  );
+
+  function startExit(exiting: ExitingEntry<TItem>, reducedMotion: boolean, options: KeyframeAnimationOptions) {
+    const element = getElement(exiting.entry.result);
+    if (!element || reducedMotion) {
+      finishExit(exiting);
+      return;
+    }
+
+    // Take the node out of flow, so the remaining nodes move into its place while it leaves
+    exiting.style = element.style.cssText;
+    if (exiting.offset)
+      Object.assign(element.style, {
+        position: "absolute",
+        top: `${exiting.offset.top}px`,
+        left: `${exiting.offset.left}px`,
+        width: `${exiting.offset.width}px`,
+        height: `${exiting.offset.height}px`,
+        margin: "0",
+        pointerEvents: "none",
+      });
+
+    exiting.animation = element.animate(props.exit ?? DEFAULT_EXIT_KEYFRAMES, { ...options, fill: "forwards" });
+    exiting.animation.finished.then(
+      () => finishExit(exiting),
+      // Canceled when the node comes back before leaving
+      () => {},
+    );
+  }
+
+  function finishExit(exiting: ExitingEntry<TItem>) {
+    for (const [key, value] of exitingEntries) {
+      if (value !== exiting) continue;
+
+      exitingEntries.delete(key);
+      exiting.entry.dispose();
+      setExitVersion((version) => version + 1);
+      return;
+    }
+  }
+
+  function reviveExitingEntry(key: TKey) {
+    const exiting = exitingEntries.get(key);
+    if (!exiting) return;
+
+    exitingEntries.delete(key);
+    exiting.animation?.cancel();
+    const element = getElement(exiting.entry.result);
+    if (element && exiting.style !== undefined) element.style.cssText = exiting.style;
+
+    return exiting.entry;
+  }
+
+  return <>{memoized()}</>;
+}
+
+function getElement(result: JSX.Element) {
+  return result instanceof HTMLElement ? result : undefined;
+}
+
+function prefersReducedMotion() {
+  return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+}
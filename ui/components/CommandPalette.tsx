@@ -0,0 +1,322 @@
+import { mergeCls } from "acore-ts/ui/ClassHelpers";
+import { createEffect, createMemo, createSignal, createUniqueId, For, on, onCleanup, Show, type JSX } from "solid-js";
+import { Portal } from "solid-js/web";
+import { search as searchSvg } from "../constants/IconSvgs";
+import FuzzyMatchHelper from "../helpers/FuzzyMatchHelper";
+import KeyboardShortcutHelper from "../helpers/KeyboardShortcutHelper";
+import type { BaseDropdownItem } from "./DropdownMenu";
+import SvgIcon from "./SvgIcon";
+
+export type RecentCommandsStorage = Pick<Storage, "getItem" | "setItem">;
+
+type Props = {
+  menuItems: BaseDropdownItem[];
+  renderIcon?: (icon: string) => JSX.Element;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  hotkey?: string | false;
+  placeholder?: string;
+  emptyText?: string;
+  ariaLabel?: string;
+  recentLimit?: number;
+  persistKey?: string;
+  storage?: RecentCommandsStorage;
+  class?: string;
+  backdropClass?: string;
+};
+
+type Command = {
+  /** The path of texts leading to the item, used to identify it among recent commands. */
+  key: string;
+  item: BaseDropdownItem;
+  /** The texts of the groups and submenus the item is nested in. */
+  section: string;
+};
+
+type CommandResult = { command: Command; indices: number[] };
+
+const DEFAULT_HOTKEY = "Mod+K";
+const DEFAULT_RECENT_LIMIT = 5;
+const RECENT_COMMANDS_STORAGE_KEY_PREFIX = "ac-command-palette-recent:";
+const COMMAND_PATH_SEPARATOR = " › ";
+
+/**
+ * A searchable command palette listing every item of a dropdown item tree, opened with a keyboard shortcut.
+ *
+ * Groups and submenus are flattened into a single list that is fuzzy-filtered by item text, with the matched characters
+ * highlighted. ArrowUp and ArrowDown move the selection, Enter runs the selected command by calling its `onClick` and
+ * navigating to its `href`, and Escape closes the palette. Disabled items and separators are left out.
+ *
+ * @param props - The component properties.
+ * @param props.menuItems - The item tree of the commands, in the same shape as the items of `Dropdown`.
+ * @param props.renderIcon - The function that renders the icon of a command.
+ * @param props.open - Whether the palette is open. Leave undefined to let the palette manage its own state.
+ * @param props.onOpenChange - Called when the palette opens or closes.
+ * @param props.hotkey - The shortcut that toggles the palette, such as `Mod+K`, where `Mod` is Command on Apple
+ *   platforms and Control elsewhere. Defaults to `Mod+K`. Pass `false` to disable it.
+ * @param props.placeholder - The placeholder of the search input.
+ * @param props.emptyText - The text shown when no command matches the search.
+ * @param props.ariaLabel - The aria label for the palette.
+ * @param props.recentLimit - The number of recently run commands listed first while the search is empty. Defaults to 5.
+ *   Pass 0 to disable them.
+ * @param props.persistKey - The key under which the recent commands are persisted and restored on mount.
+ * @param props.storage - The storage used for persisting recent commands. Defaults to `localStorage`.
+ * @param props.class - The class name for the palette.
+ * @param props.backdropClass - The class name for the backdrop behind the palette.
+ */
+export default function CommandPalette(props: Props) {
+  const [isOpenState, setIsOpenState] = createSignal(false);
+  const [query, setQuery] = createSignal("");
+  const [selectedIndex, setSelectedIndex] = createSignal(0);
+  const [recentKeys, setRecentKeys] = createSignal<string[]>(loadRecentKeys());
+  const id = createUniqueId();
+  const listboxId = `${id}-listbox`;
+
+  const isOpen = () => props.open ?? isOpenState();
+  const recentLimit = () => props.recentLimit ?? DEFAULT_RECENT_LIMIT;
+
+  let inputElement: HTMLInputElement | undefined;
+  let listboxElement: HTMLUListElement | undefined;
+  let previouslyFocused: HTMLElement | null = null;
+
+  const commands = createMemo(() => flattenCommands(props.menuItems));
+
+  const results = createMemo<CommandResult[]>(() => {
+    const recent = recentKeys().slice(0, recentLimit());
+    const recentRank = (command: Command) => {
+      const index = recent.indexOf(command.key);
+      return index === -1 ? recent.length : index;
+    };
+
+    if (!query().trim())
+      return commands()
+        .map((command) => ({ command, indices: [] }))
+        .sort((a, b) => recentRank(a.command) - recentRank(b.command));
+
+    return commands()
+      .flatMap((command) => {
+        const match = FuzzyMatchHelper.match(query(), command.item.text);
+        return match ? [{ command, indices: match.indices, score: match.score }] : [];
+      })
+      .sort((a, b) => b.score - a.score || recentRank(a.command) - recentRank(b.command))
+      .map(({ command, indices }) => ({ command, indices }));
+  });
+
+  createEffect(
+    on(isOpen, (open) => {
+      if (open) {
+        previouslyFocused = document.activeElement as HTMLElement | null;
+        setQuery("");
+        setSelectedIndex(0);
+        inputElement?.focus();
+      } else {
+        previouslyFocused?.focus();
+        previouslyFocused = null;
+      }
+    }),
+  );
+
+  createEffect(on(query, () => setSelectedIndex(0), { defer: true }));
+
+  createEffect(() => {
+    if (props.hotkey === false) return;
+
+    document.addEventListener("keydown", onDocumentKeyDown);
+    onCleanup(() => document.removeEventListener("keydown", onDocumentKeyDown));
+  });
+
+  function setOpen(open: boolean) {
+    if (open === isOpen()) return;
+
+    setIsOpenState(open);
+    props.onOpenChange?.(open);
+  }
+
+  function onDocumentKeyDown(event: KeyboardEvent) {
+    if (!KeyboardShortcutHelper.matches(event, props.hotkey || DEFAULT_HOTKEY)) return;
+
+    event.preventDefault();
+    setOpen(!isOpen());
+  }
+
+  function loadRecentKeys(): string[] {
+    if (!props.persistKey) return [];
+
+    try {
+      const serializedKeys = (props.storage ?? localStorage).getItem(
+        RECENT_COMMANDS_STORAGE_KEY_PREFIX + props.persistKey,
+      );
+      const keys: unknown = serializedKeys ? JSON.parse(serializedKeys) : [];
+      return Array.isArray(keys) ? keys.filter((key): key is string => typeof key === "string") : [];
+    } catch {
+      return [];
+    }
+  }
+
+  function addRecentKey(key: string) {
+    if (!recentLimit()) return;
+
+    const keys = [key, ...recentKeys().filter((recentKey) => recentKey !== key)].slice(0, recentLimit());
+    setRecentKeys(keys);
+    if (!props.persistKey) return;
+
+    try {
+      (props.storage ?? localStorage).setItem(
+        RECENT_COMMANDS_STORAGE_KEY_PREFIX + props.persistKey,
+        JSON.stringify(keys),
+      );
+    } catch {
+      // The storage is full or blocked, the recent commands are then only kept for this session
+    }
+  }
+
+  function runCommand(command: Command) {
+    addRecentKey(command.key);
+    if (!command.item.keepOpen) setOpen(false);
+
+    command.item.onClick?.();
+    if (command.item.href) window.location.assign(command.item.href);
+  }
+
+  function selectIndex(index: number) {
+    setSelectedIndex(index);
+    listboxElement?.children[index]?.scrollIntoView({ block: "nearest" });
+  }
+
+  function onInputKeyDown(event: KeyboardEvent) {
+    const count = results().length;
+
+    switch (event.key) {
+      case "ArrowDown":
+        if (count) selectIndex((selectedIndex() + 1) % count);
+        break;
+      case "ArrowUp":
+        if (count) selectIndex((selectedIndex() - 1 + count) % count);
+        break;
+      case "Enter": {
+        const result = results()[selectedIndex()];
+        if (result) runCommand(result.command);
+        break;
+      }
+      case "Escape":
+        setOpen(false);
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+  }
+
+  const optionId = (index: number) => `${id}-option-${index}`;
+
+  return (
+    <Show when={isOpen()}>
+      <Portal>
+        <div
+          class={mergeCls("fixed inset-0 z-50 bg-black/50", props.backdropClass)}
+          onClick={() => setOpen(false)}
+          aria-hidden="true"
+        />
+        <div
+          class={mergeCls(
+            "shadow-secondary fixed left-1/2 top-[15%] z-50 flex max-h-[70vh] w-full max-w-lg -translate-x-1/2 flex-col overflow-hidden rounded-md bg-gray-900 shadow-lg ring-1 ring-black ring-opacity-5",
+            props.class,
+          )}
+          role="dialog"
+          aria-modal="true"
+          aria-label={props.ariaLabel}
+        >
+          <div class="flex items-center gap-2 border-b border-gray-700 px-4">
+            <span class="text-gray-400" aria-hidden="true">
+              <SvgIcon svg={searchSvg} alt="" class="size-4" />
+            </span>
+            <input
+              ref={inputElement}
+              type="text"
+              value={query()}
+              onInput={(event) => setQuery(event.currentTarget.value)}
+              onKeyDown={onInputKeyDown}
+              class="w-full bg-transparent py-3 text-sm text-gray-200 outline-none"
+              placeholder={props.placeholder}
+              role="combobox"
+              aria-expanded="true"
+              aria-controls={listboxId}
+              aria-autocomplete="list"
+              aria-activedescendant={results().length ? optionId(selectedIndex()) : undefined}
+              autocomplete="off"
+              spellcheck={false}
+            />
+          </div>
+
+          <ul
+            ref={listboxElement}
+            id={listboxId}
+            class="overflow-y-auto py-1"
+            role="listbox"
+            aria-label={props.ariaLabel}
+          >
+            <For
+              each={results()}
+              fallback={
+                <li class="px-4 py-2 text-sm text-gray-400" role="presentation">
+                  {props.emptyText}
+                </li>
+              }
+            >
+              {(result, index) => (
+                <li
+                  id={optionId(index())}
+                  class={mergeCls(
+                    "flex cursor-pointer items-center gap-2 px-4 py-2 text-sm text-gray-200",
+                    selectedIndex() === index() ? "bg-gray-100 text-gray-900" : undefined,
+                  )}
+                  role="option"
+                  aria-selected={selectedIndex() === index()}
+                  onMouseMove={() => selectedIndex() !== index() && setSelectedIndex(index())}
+                  // Keep the focus in the search input
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => runCommand(result.command)}
+                >
+                  <Show when={result.command.item.icon && props.renderIcon}>
+                    {result.command.item.icon && props.renderIcon?.(result.command.item.icon)}
+                  </Show>
+                  <span>
+                    <For each={FuzzyMatchHelper.highlight(result.command.item.text, result.indices)}>
+                      {(segment) =>
+                        segment.isMatch ? (
+                          <mark class="bg-transparent font-semibold text-inherit underline">{segment.text}</mark>
+                        ) : (
+                          segment.text
+                        )
+                      }
+                    </For>
+                  </span>
+                  <Show when={result.command.section}>
+                    <span class="ms-auto truncate text-xs text-gray-400">{result.command.section}</span>
+                  </Show>
+                </li>
+              )}
+            </For>
+          </ul>
+        </div>
+      </Portal>
+    </Show>
+  );
+}
+
+/** Flattens groups and submenus into a list of the items that can be run. */
+function flattenCommands(items: BaseDropdownItem[], path: string[] = []): Command[] {
+  return items.flatMap((item) => {
+    if (item.type === "separator" || item.disabled) return [];
+    if (item.items) return flattenCommands(item.items, [...path, item.text]);
+
+    return [
+      {
+        key: [...path, item.text].join(COMMAND_PATH_SEPARATOR),
+        item,
+        section: path.join(COMMAND_PATH_SEPARATOR),
+      },
+    ];
+  });
+}
@@ -0,0 +1,172 @@
+import { mergeCls } from "acore-ts/ui/ClassHelpers";
+import { createEffect, createSignal, createUniqueId, onCleanup, Show, type JSX } from "solid-js";
+import { Portal } from "solid-js/web";
+import DismissableLayerHelper from "../helpers/DismissableLayerHelper";
+import type { Placement } from "../helpers/FloatingPositionHelper";
+import DropdownMenu, { getMenuItemElements, type BaseDropdownItem } from "./DropdownMenu";
+
+type Props = {
+  menuItems: BaseDropdownItem[];
+  children: JSX.Element;
+  class?: string;
+  ariaLabel?: string;
+  renderIcon?: (icon: string) => JSX.Element;
+  id?: string;
+  longPressDelay?: number;
+  submenuPlacement?: Placement;
+};
+
+const DEFAULT_LONG_PRESS_DELAY = 500;
+// How far in pixels a touch may move before it counts as scrolling rather than a long press
+const LONG_PRESS_MOVE_TOLERANCE = 10;
+// How long in milliseconds after releasing a long press a click still counts as part of it
+const LONG_PRESS_CLICK_WINDOW = 400;
+
+/**
+ * A context menu that opens at the pointer when its content is right-clicked, or long-pressed on touch screens.
+ *
+ * The menu shares its rendering and keyboard navigation with `Dropdown`, closes on a click outside of it, and returns
+ * focus to the element that was focused before it opened.
+ *
+ * @param props - The component properties.
+ * @param props.menuItems - The items of the menu. Items with `items` open a submenu, unless their `type` is `"group"`,
+ *   in which case their children are rendered in place under a heading.
+ * @param props.children - The content that opens the menu.
+ * @param props.class - The class name for the wrapper of the content.
+ * @param props.ariaLabel - The aria label for the menu.
+ * @param props.renderIcon - The function that renders the icon of an item.
+ * @param props.id - The id of the context menu, also used as the prefix of the menu ids.
+ * @param props.longPressDelay - The time in milliseconds a touch must be held to open the menu. Defaults to 500.
+ * @param props.submenuPlacement - The preferred placement of submenus relative to their item. Defaults to
+ *   `right-start`.
+ */
+export default function ContextMenu(props: Props) {
+  const [point, setPoint] = createSignal<{ x: number; y: number }>();
+  const id = props.id ?? createUniqueId();
+  const menuId = `${id}-menu`;
+
+  let menuElement: HTMLDivElement | undefined;
+  let previouslyFocused: HTMLElement | null = null;
+  let longPressTimeout: ReturnType<typeof setTimeout> | undefined;
+  let longPressStart: { x: number; y: number } | undefined;
+  // Releasing a long press may or may not fire a click, which must not close the menu it just opened
+  let isLongPressHeld = false;
+  let longPressReleaseTime = -Infinity;
+
+  const isOpen = () => !!point();
+
+  createEffect(() => {
+    if (!isOpen()) return;
+
+    onCleanup(
+      DismissableLayerHelper.push({
+        elements: () => [menuElement],
+        onDismiss: onClickOutside,
+      }),
+    );
+  });
+
+  onCleanup(() => {
+    clearTimeout(longPressTimeout);
+    stopWatchingLongPressRelease();
+  });
+
+  function onClickOutside() {
+    if (isLongPressHeld || performance.now() - longPressReleaseTime < LONG_PRESS_CLICK_WINDOW) return;
+    closeMenu(false);
+  }
+
+  function openMenu(x: number, y: number) {
+    if (!isOpen()) previouslyFocused = document.activeElement as HTMLElement | null;
+    setPoint({ x, y });
+    getMenuItemElements(menuElement)[0]?.focus();
+  }
+
+  function closeMenu(restoreFocus: boolean) {
+    setPoint(undefined);
+    if (restoreFocus) previouslyFocused?.focus();
+    previouslyFocused = null;
+  }
+
+  function onContextMenu(event: MouseEvent) {
+    event.preventDefault();
+    // Touch browsers fire their own context menu event on long press, which the long press already handled
+    if (isLongPressHeld && isOpen()) return;
+    openMenu(event.clientX, event.clientY);
+  }
+
+  function onPointerDown(event: PointerEvent) {
+    if (event.pointerType !== "touch") return;
+
+    const start = { x: event.clientX, y: event.clientY };
+    longPressStart = start;
+    clearTimeout(longPressTimeout);
+    longPressTimeout = setTimeout(() => {
+      longPressStart = undefined;
+      isLongPressHeld = true;
+      // The touch is released over the menu, outside of the wrapper, so the release is watched on the document
+      document.addEventListener("pointerup", onLongPressRelease, true);
+      document.addEventListener("pointercancel", onLongPressRelease, true);
+      openMenu(start.x, start.y);
+    }, props.longPressDelay ?? DEFAULT_LONG_PRESS_DELAY);
+  }
+
+  function onLongPressRelease() {
+    isLongPressHeld = false;
+    longPressReleaseTime = performance.now();
+    stopWatchingLongPressRelease();
+  }
+
+  function stopWatchingLongPressRelease() {
+    document.removeEventListener("pointerup", onLongPressRelease, true);
+    document.removeEventListener("pointercancel", onLongPressRelease, true);
+  }
+
+  function onPointerMove(event: PointerEvent) {
+    if (!longPressStart) return;
+
+    const distance = Math.hypot(event.clientX - longPressStart.x, event.clientY - longPressStart.y);
+    if (distance > LONG_PRESS_MOVE_TOLERANCE) cancelLongPress();
+  }
+
+  function cancelLongPress() {
+    clearTimeout(longPressTimeout);
+    longPressStart = undefined;
+  }
+
+  // A zero-sized rectangle at the pointer, so the menu opens with its corner under the pointer
+  const anchor = () => {
+    const { x, y } = point() ?? { x: 0, y: 0 };
+    return { getBoundingClientRect: () => ({ top: y, left: x, width: 0, height: 0 }) };
+  };
+
+  return (
+    <div
+      id={id}
+      class={mergeCls("ac-context-menu", props.class)}
+      onContextMenu={onContextMenu}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={cancelLongPress}
+      onPointerCancel={cancelLongPress}
+    >
+      {props.children}
+
+      <Show when={point()} keyed>
+        <Portal>
+          <DropdownMenu
+            ref={(element) => (menuElement = element)}
+            items={props.menuItems}
+            id={menuId}
+            ariaLabel={props.ariaLabel}
+            anchor={anchor}
+            placement="bottom-start"
+            submenuPlacement={props.submenuPlacement}
+            renderIcon={props.renderIcon}
+            onClose={() => closeMenu(true)}
+          />
+        </Portal>
+      </Show>
+    </div>
+  );
+}
@@ -1,13 +1,11 @@
 import { mergeCls } from "acore-ts/ui/ClassHelpers";
-import { createEffect, createSignal, Index, Show, type JSX } from "solid-js";
+import { createEffect, createSignal, createUniqueId, onCleanup, Show, type JSX } from "solid-js";
+import { Portal } from "solid-js/web";
+import DismissableLayerHelper from "../helpers/DismissableLayerHelper";
+import type { Placement } from "../helpers/FloatingPositionHelper";
+import DropdownMenu, { getMenuItemElements, type BaseDropdownItem } from "./DropdownMenu";
 
-export type BaseDropdownItem = {
-  text: string;
-  icon?: string;
-  href?: string;
-  onClick?: () => void;
-  items?: BaseDropdownItem[];
-};
+export type { BaseDropdownItem } from "./DropdownMenu";
 
 type Props = {
   menuItems: BaseDropdownItem[];
@@ -15,99 +13,119 @@ type Props = {
   buttonClass?: string;
   ariaLabel: string;
   renderIcon?: (icon: string) => JSX.Element;
-  id: string;
+  id?: string;
+  placement?: Placement;
+  submenuPlacement?: Placement;
 };
 
+const MENU_OFFSET = 8;
+
+/**
+ * A menu button that opens a menu of items, following the WAI-ARIA menu button pattern.
+ *
+ * The menu supports arrow key navigation, Home and End, typeahead by item text, and Escape to close and return focus to
+ * the button. Group headings are skipped while navigating. Items with children open a cascading submenu on hover,
+ * Enter, or ArrowRight, which ArrowLeft closes again.
+ *
+ * The menu is rendered through a portal so that ancestors with hidden overflow do not clip it, and it is positioned
+ * next to the button, flipping and shifting to stay inside the viewport as the page scrolls or resizes. Clicking
+ * outside of the dropdown closes it, after closing any dropdown opened above it.
+ *
+ * @param props - The component properties.
+ * @param props.menuItems - The items of the menu. Items with `items` open a submenu, unless their `type` is `"group"`,
+ *   in which case their children are rendered in place under a heading.
+ * @param props.children - The content of the menu button.
+ * @param props.buttonClass - The class name for the menu button.
+ * @param props.ariaLabel - The aria label for the menu button.
+ * @param props.renderIcon - The function that renders the icon of an item.
+ * @param props.id - The id of the dropdown, also used as the prefix of the button and menu ids. Defaults to a generated
+ *   unique id.
+ * @param props.placement - The preferred placement of the menu relative to the button. Defaults to `bottom-start`.
+ * @param props.submenuPlacement - The preferred placement of submenus relative to their item. Defaults to
+ *   `right-start`.
+ */
 export default function Dropdown(props: Props) {
   const [isOpen, setIsOpen] = createSignal(false);
+  const id = props.id ?? createUniqueId();
+  const buttonId = `${id}-button`;
+  const menuId = `${id}-menu`;
+
+  let rootElement: HTMLDivElement | undefined;
+  let buttonElement: HTMLButtonElement | undefined;
+  let menuElement: HTMLDivElement | undefined;
 
   createEffect(() => {
-    if (isOpen()) document.addEventListener("click", onClickOutside);
-    else document.removeEventListener("click", onClickOutside);
+    if (!isOpen()) return;
+
+    onCleanup(
+      DismissableLayerHelper.push({
+        elements: () => [rootElement, menuElement],
+        onDismiss: () => setIsOpen(false),
+      }),
+    );
   });
 
-  function onClickOutside(e: MouseEvent) {
-    if (!isOpen()) return;
-    const target = e.target as HTMLElement;
-    if (!target.closest(`#${props.id}`)) setIsOpen(false);
+  function onToggleDropdown() {
+    if (isOpen()) setIsOpen(false);
+    else openMenu("first");
   }
 
-  function onToggleDropdown() {
-    setIsOpen(!isOpen());
+  function openMenu(focus: "first" | "last") {
+    setIsOpen(true);
+    const items = getMenuItemElements(menuElement);
+    (focus === "first" ? items[0] : items.at(-1))?.focus();
+  }
+
+  function closeMenu() {
+    setIsOpen(false);
+    buttonElement?.focus();
+  }
+
+  function onButtonKeyDown(event: KeyboardEvent) {
+    if (event.key === "ArrowDown" || event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      openMenu("first");
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      openMenu("last");
+    }
   }
 
   return (
-    <div id={props.id} class="ac-dropdown relative inline-block text-left">
+    <div ref={rootElement} id={id} class="ac-dropdown relative inline-block text-left">
       <div class="flex size-full items-center justify-center">
         <button
+          ref={buttonElement}
+          id={buttonId}
           type="button"
           onClick={onToggleDropdown}
+          onKeyDown={onButtonKeyDown}
           class={mergeCls("rounded px-4 py-2 text-white", props.buttonClass)}
           aria-label={props.ariaLabel}
+          aria-haspopup="menu"
+          aria-expanded={isOpen()}
+          aria-controls={isOpen() ? menuId : undefined}
         >
           {props.children}
         </button>
       </div>
 
       <Show when={isOpen()}>
-        <Menu />
+        <Portal>
+          <DropdownMenu
+            ref={(element) => (menuElement = element)}
+            items={props.menuItems}
+            id={menuId}
+            labelledBy={buttonId}
+            anchor={() => buttonElement}
+            placement={props.placement}
+            offset={MENU_OFFSET}
+            submenuPlacement={props.submenuPlacement}
+            renderIcon={props.renderIcon}
+            onClose={closeMenu}
+          />
+        </Portal>
       </Show>
     </div>
   );
-
-  function Menu() {
-    return (
-      <div class="shadow-secondary absolute left-0 z-50 mt-2 w-56 origin-top-right rounded-md shadow-lg ring-1 ring-black ring-opacity-5">
-        <div class="py-1" role="menu" aria-orientation="vertical" aria-labelledby="options-menu">
-          <Index each={props.menuItems}>
-            {(item) => {
-              if (item().items)
-                return (
-                  <>
-                    <h1 class="border-b px-4 py-2 text-xs text-gray-300">{item().text}</h1>
-                    <Index each={item().items}>
-                      {(subitem) => <MenuItem item={subitem()} renderIcon={props.renderIcon} />}
-                    </Index>
-                  </>
-                );
-
-              return <MenuItem item={item()} renderIcon={props.renderIcon} />;
-            }}
-          </Index>
-        </div>
-      </div>
-    );
-  }
-
-  function MenuItem(props: { item: BaseDropdownItem; renderIcon?: (icon: string) => JSX.Element }) {
-    const classes =
-      "block px-4 py-2 text-sm text-gray-200 hover:bg-gray-100 hover:text-gray-900 w-full text-start border-none shadow-none cursor-pointer rounded transition-colors duration-200 ease-in-out";
-
-    function onClick() {
-      setIsOpen(false);
-      props.item.onClick?.();
-    }
-
-    if (props.item.href)
-      return (
-        <a href={props.item.href} onClick={onClick} class={classes} aria-label={props.item.text}>
-          {renderMenuItem(props.item)}
-        </a>
-      );
-    else
-      return (
-        <button onClick={onClick} class={classes} aria-label={props.item.text}>
-          {renderMenuItem(props.item)}
-        </button>
-      );
-
-    function renderMenuItem(item: BaseDropdownItem) {
-      return (
-        <span class="flex items-center gap-2">
-          <Show when={item.icon && props.renderIcon}>{item.icon && props.renderIcon?.(item.icon)}</Show>
-          {item.text}
-        </span>
-      );
-    }
-  }
 }
@@ -0,0 +1,410 @@
+import { mergeCls } from "acore-ts/ui/ClassHelpers";
+import { createSignal, Index, onCleanup, onMount, Show, type JSX } from "solid-js";
+import { Dynamic } from "solid-js/web";
+import FloatingPositionHelper, {
+  type FloatingPosition,
+  type FloatingReference,
+  type Placement,
+} from "../helpers/FloatingPositionHelper";
+import KeyboardShortcutHelper from "../helpers/KeyboardShortcutHelper";
+import { check as checkSvg, chevronRight as chevronRightSvg } from "../constants/IconSvgs";
+import SvgIcon from "./SvgIcon";
+
+export type BaseDropdownItem = {
+  /** The label of the item. Ignored for separators. */
+  text: string;
+  icon?: string;
+  href?: string;
+  onClick?: () => void;
+  items?: BaseDropdownItem[];
+  /**
+   * The kind of the item. Groups render their children in place under a heading, which is also how radio items are
+   * grouped. Checkbox and radio items show their `checked` state.
+   */
+  type?: "group" | "separator" | "checkbox" | "radio";
+  checked?: boolean;
+  disabled?: boolean;
+  /** The reason shown as a tooltip when the item is disabled. */
+  disabledReason?: string;
+  /** The keyboard shortcut hint, such as `Mod+Shift+K`. `Mod` is Command on Apple platforms and Control elsewhere. */
+  shortcut?: string;
+  /** Whether the menu stays open after the item is selected. */
+  keepOpen?: boolean;
+};
+
+type Props = {
+  items: BaseDropdownItem[];
+  id: string;
+  labelledBy?: string;
+  ariaLabel?: string;
+  anchor: () => FloatingReference | undefined;
+  placement?: Placement;
+  offset?: number;
+  submenuPlacement?: Placement;
+  renderIcon?: (icon: string) => JSX.Element;
+  ref?: (element: HTMLDivElement) => void;
+  onClose: () => void;
+};
+
+type MenuProps = {
+  items: BaseDropdownItem[];
+  id: string;
+  labelledBy?: string;
+  ariaLabel?: string;
+  anchor: () => FloatingReference | undefined;
+  placement: Placement;
+  offset?: number;
+  ref?: (element: HTMLDivElement) => void;
+  onCloseSubmenu?: () => void;
+};
+
+const TYPEAHEAD_RESET_DELAY = 500;
+const MENU_ITEM_SELECTOR = '[role="menuitem"], [role="menuitemcheckbox"], [role="menuitemradio"]';
+
+const MENU_ITEM_ROLES: Partial<Record<NonNullable<BaseDropdownItem["type"]>, "menuitemcheckbox" | "menuitemradio">> = {
+  checkbox: "menuitemcheckbox",
+  radio: "menuitemradio",
+};
+
+/**
+ * A menu of dropdown items, positioned next to an anchor and shared by the menu components of the library.
+ *
+ * The menu supports arrow key navigation, Home and End, typeahead by item text, and Escape to close. Group headings and
+ * separators are skipped while navigating. Items with children open a cascading submenu on hover, Enter, or ArrowRight,
+ * which ArrowLeft closes again. The menu flips and shifts to stay inside the viewport as the page scrolls or resizes.
+ *
+ * @param props - The component properties.
+ * @param props.items - The items of the menu. Items with `items` open a submenu, unless their `type` is `"group"`, in
+ *   which case their children are rendered in place under a heading.
+ * @param props.id - The id of the menu, also used as the prefix of the submenu ids.
+ * @param props.labelledBy - The id of the element labelling the menu.
+ * @param props.ariaLabel - The aria label for the menu, when no element labels it.
+ * @param props.anchor - The element or point the menu is positioned next to.
+ * @param props.placement - The preferred placement of the menu relative to the anchor. Defaults to `bottom-start`.
+ * @param props.offset - The distance in pixels between the anchor and the menu.
+ * @param props.submenuPlacement - The preferred placement of submenus relative to their item. Defaults to
+ *   `right-start`.
+ * @param props.renderIcon - The function that renders the icon of an item.
+ * @param props.ref - Receives the menu element.
+ * @param props.onClose - Called when the menu should close, after an item is selected, on Escape, or on Tab. Focus
+ *   should be restored to where it was before the menu opened, so Tab moves on from there.
+ */
+export default function DropdownMenu(props: Props) {
+  let typeahead = "";
+  let typeaheadTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  onCleanup(() => clearTimeout(typeaheadTimeout));
+
+  function closeMenu() {
+    props.onClose();
+  }
+
+  function focusByTypeahead(items: HTMLElement[], currentIndex: number, character: string) {
+    clearTimeout(typeaheadTimeout);
+    typeaheadTimeout = setTimeout(() => (typeahead = ""), TYPEAHEAD_RESET_DELAY);
+    typeahead += character.toLowerCase();
+
+    // Search from the item after the focused one, so repeating a character cycles through the matches
+    const orderedItems = [...items.slice(currentIndex + 1), ...items.slice(0, currentIndex + 1)];
+    const match =
+      orderedItems.find((item) => item.dataset.text?.toLowerCase().startsWith(typeahead)) ??
+      orderedItems.find((item) => item.dataset.text?.toLowerCase().startsWith(character.toLowerCase()));
+    match?.focus();
+  }
+
+  return (
+    <Menu
+      ref={props.ref}
+      items={props.items}
+      id={props.id}
+      labelledBy={props.labelledBy}
+      ariaLabel={props.ariaLabel}
+      anchor={props.anchor}
+      placement={props.placement ?? "bottom-start"}
+      offset={props.offset}
+    />
+  );
+
+  function Menu(menuProps: MenuProps) {
+    const [openSubmenuId, setOpenSubmenuId] = createSignal<string>();
+    const [position, setPosition] = createSignal<FloatingPosition>();
+
+    let element: HTMLDivElement | undefined;
+    let floatingElement: HTMLDivElement | undefined;
+
+    onMount(() => {
+      const anchor = menuProps.anchor();
+      if (!anchor || !floatingElement) return;
+
+      const updatePosition = () =>
+        setPosition(
+          FloatingPositionHelper.computePosition(
+            anchor.getBoundingClientRect(),
+            floatingElement!.getBoundingClientRect(),
+            {
+              placement: menuProps.placement,
+              offset: menuProps.offset,
+            },
+          ),
+        );
+      updatePosition();
+      onCleanup(FloatingPositionHelper.autoUpdate(anchor, floatingElement, updatePosition));
+    });
+
+    function onMenuMount(menuElement: HTMLDivElement) {
+      element = menuElement;
+      menuProps.ref?.(menuElement);
+    }
+
+    function openSubmenu(submenuId: string, focusFirstItem: boolean) {
+      setOpenSubmenuId(submenuId);
+      if (focusFirstItem) getMenuItemElements(document.getElementById(submenuId))[0]?.focus();
+    }
+
+    function closeSubmenu() {
+      const submenuId = openSubmenuId();
+      setOpenSubmenuId(undefined);
+      getMenuItemElements(element)
+        .find((item) => item.getAttribute("aria-controls") === submenuId)
+        ?.focus();
+    }
+
+    function onKeyDown(event: KeyboardEvent) {
+      // Keys pressed inside a submenu bubble up, but are handled by the submenu itself
+      if (event.defaultPrevented || (event.target as HTMLElement).closest('[role="menu"]') !== element) return;
+
+      const items = getMenuItemElements(element);
+      const currentIndex = items.indexOf(document.activeElement as HTMLElement);
+      const submenuId = items[currentIndex]?.getAttribute("aria-controls");
+
+      switch (event.key) {
+        case "ArrowDown":
+          items[(currentIndex + 1) % items.length]?.focus();
+          break;
+        case "ArrowUp":
+          items[(currentIndex - 1 + items.length) % items.length]?.focus();
+          break;
+        case "Home":
+          items[0]?.focus();
+          break;
+        case "End":
+          items.at(-1)?.focus();
+          break;
+        case "ArrowRight":
+          if (submenuId) openSubmenu(submenuId, true);
+          break;
+        case "ArrowLeft":
+          menuProps.onCloseSubmenu?.();
+          break;
+        case "Escape":
+          if (menuProps.onCloseSubmenu) menuProps.onCloseSubmenu();
+          else closeMenu();
+          break;
+        case "Tab":
+          // The menu is portaled to the end of the document, so focus goes back first and Tab moves on from there
+          closeMenu();
+          return;
+        default:
+          if (event.key.length !== 1 || event.ctrlKey || event.metaKey || event.altKey) return;
+          // Space activates the focused item, unless it continues a typeahead search
+          if (event.key === " " && !typeahead) return;
+          focusByTypeahead(items, currentIndex, event.key);
+      }
+
+      event.preventDefault();
+    }
+
+    function renderItems(items: BaseDropdownItem[], idPrefix: string) {
+      return (
+        <Index each={items}>
+          {(item, index) => {
+            const itemId = `${idPrefix}-${index}`;
+
+            if (item().type === "group")
+              return (
+                <div role="group" aria-labelledby={`${itemId}-heading`}>
+                  <h1 id={`${itemId}-heading`} class="border-b px-4 py-2 text-xs text-gray-300" role="presentation">
+                    {item().text}
+                  </h1>
+                  {renderItems(item().items ?? [], itemId)}
+                </div>
+              );
+
+            if (item().type === "separator") return <div class="my-1 border-t" role="separator" />;
+
+            if (item().items)
+              return (
+                <SubmenuItem
+                  item={item()}
+                  submenuId={`${itemId}-submenu`}
+                  isOpen={openSubmenuId() === `${itemId}-submenu`}
+                  onOpen={(focusFirstItem) => openSubmenu(`${itemId}-submenu`, focusFirstItem)}
+                  onClose={closeSubmenu}
+                  onHoverEnd={() => setOpenSubmenuId(undefined)}
+                />
+              );
+
+            return <MenuItem item={item()} />;
+          }}
+        </Index>
+      );
+    }
+
+    return (
+      <div
+        ref={floatingElement}
+        class="shadow-secondary fixed z-50 w-56 origin-top-right rounded-md shadow-lg ring-1 ring-black ring-opacity-5"
+        style={{
+          top: `${position()?.top ?? 0}px`,
+          left: `${position()?.left ?? 0}px`,
+          // Stay hidden until the first position is known to avoid a flash at the top left corner
+          visibility: position() ? undefined : "hidden",
+        }}
+        data-placement={position()?.placement}
+      >
+        <div
+          ref={onMenuMount}
+          id={menuProps.id}
+          class="py-1"
+          role="menu"
+          aria-orientation="vertical"
+          aria-labelledby={menuProps.labelledBy}
+          aria-label={menuProps.ariaLabel}
+          onKeyDown={onKeyDown}
+        >
+          {renderItems(menuProps.items, menuProps.id)}
+        </div>
+      </div>
+    );
+  }
+
+  function SubmenuItem(submenuProps: {
+    item: BaseDropdownItem;
+    submenuId: string;
+    isOpen: boolean;
+    onOpen: (focusFirstItem: boolean) => void;
+    onClose: () => void;
+    onHoverEnd: () => void;
+  }) {
+    const itemId = `${submenuProps.submenuId}-item`;
+
+    let buttonElement: HTMLButtonElement | undefined;
+
+    return (
+      <div
+        class="relative"
+        onMouseEnter={() => !submenuProps.item.disabled && submenuProps.onOpen(false)}
+        onMouseLeave={submenuProps.onHoverEnd}
+      >
+        <button
+          ref={buttonElement}
+          id={itemId}
+          onClick={() => !submenuProps.item.disabled && submenuProps.onOpen(true)}
+          onKeyDown={(event) => {
+            if (event.key !== "Enter" && event.key !== " ") return;
+            event.preventDefault();
+            if (!submenuProps.item.disabled) submenuProps.onOpen(true);
+          }}
+          class={mergeCls(MENU_ITEM_CLASSES, "flex items-center justify-between", {
+            [DISABLED_MENU_ITEM_CLASSES]: submenuProps.item.disabled ?? false,
+          })}
+          role="menuitem"
+          tabIndex={-1}
+          title={submenuProps.item.disabled ? submenuProps.item.disabledReason : undefined}
+          data-text={submenuProps.item.text}
+          aria-label={submenuProps.item.text}
+          aria-disabled={submenuProps.item.disabled || undefined}
+          aria-haspopup="menu"
+          aria-expanded={submenuProps.isOpen}
+          aria-controls={submenuProps.submenuId}
+        >
+          {renderMenuItem(submenuProps.item)}
+          <span aria-hidden="true">
+            <SvgIcon svg={chevronRightSvg} alt="" class="size-4" />
+          </span>
+        </button>
+
+        <Show when={submenuProps.isOpen}>
+          <Menu
+            items={submenuProps.item.items!}
+            id={submenuProps.submenuId}
+            labelledBy={itemId}
+            anchor={() => buttonElement}
+            placement={props.submenuPlacement ?? "right-start"}
+            onCloseSubmenu={submenuProps.onClose}
+          />
+        </Show>
+      </div>
+    );
+  }
+
+  function MenuItem(props: { item: BaseDropdownItem }) {
+    const checkableRole = () => (props.item.type ? MENU_ITEM_ROLES[props.item.type] : undefined);
+    const isCheckable = () => !!checkableRole();
+
+    function onClick(event: MouseEvent) {
+      if (props.item.disabled) {
+        event.preventDefault();
+        return;
+      }
+
+      if (!props.item.keepOpen) closeMenu();
+      props.item.onClick?.();
+    }
+
+    return (
+      <Dynamic
+        component={props.item.href ? "a" : "button"}
+        href={props.item.disabled ? undefined : props.item.href}
+        onClick={onClick}
+        class={mergeCls(MENU_ITEM_CLASSES, { [DISABLED_MENU_ITEM_CLASSES]: props.item.disabled ?? false })}
+        role={checkableRole() ?? "menuitem"}
+        tabIndex={-1}
+        title={props.item.disabled ? props.item.disabledReason : undefined}
+        data-text={props.item.text}
+        aria-label={props.item.text}
+        aria-checked={isCheckable() ? (props.item.checked ?? false) : undefined}
+        aria-disabled={props.item.disabled || undefined}
+        aria-keyshortcuts={
+          props.item.shortcut ? KeyboardShortcutHelper.toAriaKeyShortcuts(props.item.shortcut) : undefined
+        }
+      >
+        {renderMenuItem(props.item, isCheckable())}
+      </Dynamic>
+    );
+  }
+
+  function renderMenuItem(item: BaseDropdownItem, isCheckable = false) {
+    return (
+      <span class="flex items-center gap-2">
+        <Show when={isCheckable}>
+          <span class="flex w-4 justify-center" aria-hidden="true">
+            <Show when={item.checked}>
+              {item.type === "radio" ? "•" : <SvgIcon svg={checkSvg} alt="" class="size-4" />}
+            </Show>
+          </span>
+        </Show>
+        <Show when={item.icon && props.renderIcon}>{item.icon && props.renderIcon?.(item.icon)}</Show>
+        {item.text}
+        <Show when={item.shortcut}>
+          <kbd class="ms-auto font-sans text-xs text-gray-400" aria-hidden="true">
+            {KeyboardShortcutHelper.format(item.shortcut!)}
+          </kbd>
+        </Show>
+      </span>
+    );
+  }
+}
+
+const MENU_ITEM_CLASSES =
+  "block px-4 py-2 text-sm text-gray-200 hover:bg-gray-100 hover:text-gray-900 w-full text-start border-none shadow-none cursor-pointer rounded transition-colors duration-200 ease-in-out";
+const DISABLED_MENU_ITEM_CLASSES = "cursor-not-allowed opacity-50 hover:bg-transparent hover:text-gray-200";
+
+/** Gets the items of the given menu, leaving out the items of its submenus. */
+export function getMenuItemElements(menuElement: HTMLElement | null | undefined) {
+  if (!menuElement) return [];
+
+  return Array.from(menuElement.querySelectorAll<HTMLElement>(MENU_ITEM_SELECTOR)).filter(
+    (item) => item.closest('[role="menu"]') === menuElement,
+  );
+}
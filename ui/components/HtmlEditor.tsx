@@ -1,7 +1,17 @@
 import { mergeCls } from "acore-ts/ui/ClassHelpers";
 import HtmlEditorManager, { type FormatType } from "acore-ts/ui/HtmlEditorManager";
 import { createMemo, Index, onCleanup, Show, type JSX } from "solid-js";
-import IconSvgs from "../constants/IconSvgs";
+import {
+  bold as boldSvg,
+  formatClear as formatClearSvg,
+  heading1 as heading1Svg,
+  heading2 as heading2Svg,
+  italic as italicSvg,
+  link as linkSvg,
+  orderedList as orderedListSvg,
+  underline as underlineSvg,
+  unorderedList as unorderedListSvg,
+} from "../constants/IconSvgs";
 import Icon from "./SvgIcon";
 
 type ButtonComponentFunc = (props: { onClick: () => void; ariaLabel: string; children: JSX.Element }) => JSX.Element;
@@ -88,47 +98,47 @@ export default function HtmlEditor(props: Props) {
 function getToolbarButtons(toolbarButtons?: Props["toolbarButtons"]) {
   return [
     {
-      icon: toolbarButtons?.bold.iconSvg ?? IconSvgs.bold,
+      icon: toolbarButtons?.bold.iconSvg ?? boldSvg,
       format: "b",
       label: toolbarButtons?.bold.label ?? "bold",
     },
     {
-      icon: toolbarButtons?.underline.iconSvg ?? IconSvgs.underline,
+      icon: toolbarButtons?.underline.iconSvg ?? underlineSvg,
       format: "u",
       label: toolbarButtons?.underline.label ?? "underline",
     },
     {
-      icon: toolbarButtons?.italic.iconSvg ?? IconSvgs.italic,
+      icon: toolbarButtons?.italic.iconSvg ?? italicSvg,
       format: "i",
       label: toolbarButtons?.italic.label ?? "italic",
     },
     {
-      icon: toolbarButtons?.heading1.iconSvg ?? IconSvgs.heading1,
+      icon: toolbarButtons?.heading1.iconSvg ?? heading1Svg,
       format: "h1",
       label: toolbarButtons?.heading1.label ?? "heading1",
     },
     {
-      icon: toolbarButtons?.heading2.iconSvg ?? IconSvgs.heading2,
+      icon: toolbarButtons?.heading2.iconSvg ?? heading2Svg,
       format: "h2",
       label: toolbarButtons?.heading2.label ?? "heading2",
     },
     {
-      icon: toolbarButtons?.unorderedList.iconSvg ?? IconSvgs.unorderedList,
+      icon: toolbarButtons?.unorderedList.iconSvg ?? unorderedListSvg,
       format: "ul",
       label: toolbarButtons?.unorderedList.label ?? "unorderedList",
     },
     {
-      icon: toolbarButtons?.orderedList.iconSvg ?? IconSvgs.orderedList,
+      icon: toolbarButtons?.orderedList.iconSvg ?? orderedListSvg,
       format: "ol",
       label: toolbarButtons?.orderedList.label ?? "orderedList",
     },
     {
-      icon: toolbarButtons?.link.iconSvg ?? IconSvgs.link,
+      icon: toolbarButtons?.link.iconSvg ?? linkSvg,
       format: "a",
       label: toolbarButtons?.link.label ?? "link",
     },
     {
-      icon: toolbarButtons?.formatClear.iconSvg ?? IconSvgs.formatClear,
+      icon: toolbarButtons?.formatClear.iconSvg ?? formatClearSvg,
       format: "",
       label: toolbarButtons?.formatClear.label ?? "format clear",
       clear: true,
@@ -1,9 +1,12 @@
 import type { JSX } from "solid-js/jsx-runtime";
+import ResponsiveImageHelper, {
+  type ImageFormat,
+  type ImageUrlBuilder,
+  type ImgSource,
+  type LayoutBreakpoint,
+} from "../helpers/ResponsiveImageHelper";
 
-interface ImgSource {
-  media: string;
-  srcset: string;
-}
+export type { ImgSource };
 
 interface ImageNativeProps extends Omit<JSX.ImgHTMLAttributes<HTMLImageElement>, "src" | "alt"> {
   src: string;
@@ -13,16 +16,49 @@ interface ImageNativeProps extends Omit<JSX.ImgHTMLAttributes<HTMLImageElement>,
 interface ImageCustomProps {
   sources?: ImgSource[];
   isExternal?: boolean;
+  widths?: number[];
+  formats?: ImageFormat[];
+  breakpoints?: LayoutBreakpoint[];
+  urlBuilder?: ImageUrlBuilder;
 }
 
 type Props = ImageNativeProps & ImageCustomProps;
 
+/**
+ * A component that renders an image, lazily loaded and decoded by default.
+ *
+ * Given `widths`, the `srcset` of the image is generated from `src` through `urlBuilder`, and `formats` adds a
+ * `<source>` per format before the image, so browsers pick the first format they support, such as AVIF with a WebP
+ * fallback. Art-directed `sources` come before the generated ones, and can be generated with
+ * `ResponsiveImageHelper.getSources`.
+ *
+ * @param props - The component properties.
+ * @param props.src - The URL of the image, and the base URL of the generated `srcset`.
+ * @param props.alt - The alt text for the image.
+ * @param props.sources - The `<source>`s of the image, each with a `srcset` and an optional `media`, `sizes`, and
+ *   `type`. Sources without `sizes` use the `sizes` of the image.
+ * @param props.isExternal - Whether the image is served from another origin, which defaults to anonymous CORS requests
+ *   without a referrer.
+ * @param props.widths - The widths in pixels to generate the `srcset` for. Ignored when `srcset` is given.
+ * @param props.formats - The formats to generate a `<source>` for from `widths`, from the most to the least preferred.
+ *   Ignored when `srcset` is given.
+ * @param props.breakpoints - The rendered widths of the image by minimum viewport width, to compute `sizes` from.
+ *   Ignored when `sizes` is given.
+ * @param props.urlBuilder - The builder of the resized image URLs. Defaults to adding `w` and `format` query
+ *   parameters.
+ */
 export default function Image(props: Props) {
   const {
     src,
     alt,
     isExternal,
     sources,
+    widths,
+    formats,
+    breakpoints,
+    urlBuilder,
+    srcset = widths?.length ? ResponsiveImageHelper.getSrcset(src, widths, urlBuilder) : undefined,
+    sizes = breakpoints?.length ? ResponsiveImageHelper.getSizes(breakpoints) : undefined,
     loading = "lazy",
     decoding = "async",
     crossorigin = isExternal ? "anonymous" : undefined,
@@ -30,10 +66,19 @@ export default function Image(props: Props) {
     ...imgProps
   } = props;
 
+  // A given `srcset` replaces the generated one, which format sources would override in browsers supporting them
+  const formatSources =
+    !props.srcset && widths?.length && formats?.length
+      ? ResponsiveImageHelper.getSources(src, { widths, formats, sizes, urlBuilder })
+      : [];
+  const allSources = [...(sources ?? []), ...formatSources];
+
   const imgElement = (
     <img
       {...imgProps}
       src={src}
+      srcset={srcset}
+      sizes={sizes}
       alt={alt}
       loading={loading}
       decoding={decoding}
@@ -42,12 +87,12 @@ export default function Image(props: Props) {
     />
   );
 
-  if (!sources?.length) return imgElement;
+  if (!allSources.length) return imgElement;
 
   return (
     <picture>
-      {sources.map((source) => (
-        <source media={source.media} srcset={source.srcset} />
+      {allSources.map((source) => (
+        <source media={source.media} srcset={source.srcset} sizes={source.sizes ?? sizes} type={source.type} />
       ))}
       {imgElement}
     </picture>
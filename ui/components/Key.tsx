@@ -1,22 +1,28 @@
-import { createMemo, createRoot, createSignal, onCleanup, untrack, type Accessor, type JSX } from "solid-js";
+import { createMemo, createRoot, createSignal, DEV, onCleanup, untrack, type Accessor, type JSX } from "solid-js";
 
-type KeyableType = string | number | symbol;
+export type KeyableType = string | number | symbol;
 
-type NodeEntry<TItem> = {
+export type NodeEntry<TItem> = {
   index: [Accessor<number>, (v: number) => void];
   item: [Accessor<TItem>, (v: TItem) => void];
   result: JSX.Element;
+  dispose: () => void;
 };
 
 type KeyProps<TItem, TKey extends KeyableType> = {
   each?: TItem[];
   by: (item: TItem) => TKey;
   children: (item: Accessor<TItem>, index: Accessor<number>) => JSX.Element;
+  fallback?: JSX.Element;
 };
 
 /**
  * A Solid.js component that maps over a list of items and renders them using a provided key function.
  *
+ * Keys are expected to be unique. When several items share a key, each occurrence is keyed by its order among the items
+ * with that key, so the first occurrence keeps the node of the previous first occurrence and so on. A warning listing
+ * the duplicate key and its indices is logged in development.
+ *
  * @example
  *   <Key each={items()} by={(item) => item.id}>
  *     {(item, index) => (
@@ -30,37 +36,39 @@ type KeyProps<TItem, TKey extends KeyableType> = {
  * @param props.each - The list of items to map over.
  * @param props.by - The function that returns the key for each item.
  * @param props.children - The render function that receives the item and index.
+ * @param props.fallback - The element rendered when the list is empty.
  */
 export default function Key<TItem, TKey extends KeyableType>(props: KeyProps<TItem, TKey>): JSX.Element {
-  // Map to store cleanup functions for each key
-  const disposers = new Map<TKey, () => void>();
-  let previousNodeEntries = new Map<TKey, NodeEntry<TItem>>();
+  // Entries of each key, by occurrence, so duplicate keys never share or overwrite a node
+  let previousNodeEntries = new Map<TKey, NodeEntry<TItem>[]>();
 
   onCleanup(() => {
-    for (const disposer of disposers.values()) disposer();
+    for (const entries of previousNodeEntries.values()) for (const entry of entries) entry.dispose();
   });
 
   // Memoized computation to track changes in the list
   const memoized = createMemo(() => {
     const list = props.each || [];
     const mapped: JSX.Element[] = [];
-    const newNodes = new Map<TKey, NodeEntry<TItem>>();
+    const newNodes = new Map<TKey, NodeEntry<TItem>[]>();
 
     // Move untrack boundary to only cover the map operations
     for (let i = 0; i < list.length; i++) {
       const listItem = list[i];
       const keyValue = props.by(listItem);
 
+      const entries = newNodes.get(keyValue) ?? [];
+      newNodes.set(keyValue, entries);
+
       untrack(() => {
-        const lookup = previousNodeEntries.get(keyValue);
+        const lookup = previousNodeEntries.get(keyValue)?.[entries.length];
         if (!lookup) {
           // Create a new node if it doesn't exist
           mapped[i] = createRoot((dispose) => {
-            disposers.set(keyValue, dispose);
             const index = createSignal<number>(i);
             const item = createSignal<TItem>(listItem);
             const result = props.children(item[0], index[0]);
-            newNodes.set(keyValue, { index, item, result });
+            entries.push({ index, item, result, dispose });
             return result;
           });
         } else {
@@ -68,18 +76,34 @@ export default function Key<TItem, TKey extends KeyableType>(props: KeyProps<TIt
           lookup.index[1](i);
           lookup.item[1](listItem);
           mapped[i] = lookup.result;
-          newNodes.set(keyValue, lookup);
+          entries.push(lookup);
         }
       });
     }
 
+    if (DEV) warnDuplicateKeys(newNodes);
+
     // Dispose of nodes that are no longer in the list
-    for (const old of previousNodeEntries.keys()) {
-      if (!newNodes.has(old)) disposers.get(old)!();
+    for (const [key, oldEntries] of previousNodeEntries) {
+      const keptCount = newNodes.get(key)?.length ?? 0;
+      for (const entry of oldEntries.slice(keptCount)) entry.dispose();
     }
     previousNodeEntries = newNodes;
     return mapped;
   });
 
-  return <>{memoized()}</>;
+  const isEmpty = createMemo(() => !props.each?.length);
+
+  return <>{isEmpty() ? props.fallback : memoized()}</>;
+}
+
+function warnDuplicateKeys<TItem, TKey extends KeyableType>(nodes: Map<TKey, NodeEntry<TItem>[]>) {
+  for (const [key, entries] of nodes) {
+    if (entries.length < 2) continue;
+
+    const indices = entries.map((entry) => untrack(entry.index[0]));
+    console.warn(
+      `Key: duplicate key "${String(key)}" at indices ${indices.join(", ")}. Each occurrence is keyed by its order among the items with this key.`,
+    );
+  }
 }
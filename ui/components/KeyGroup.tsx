@@ -0,0 +1,139 @@
+import { mergeCls } from "acore-ts/ui/ClassHelpers";
+import { createMemo, createSignal, createUniqueId, type Accessor, type JSX } from "solid-js";
+import { chevronDown as chevronDownSvg, chevronRight as chevronRightSvg } from "../constants/IconSvgs";
+import Key, { type KeyableType } from "./Key";
+import SvgIcon from "./SvgIcon";
+
+export type ItemGroup<TItem, TGroupKey extends KeyableType> = {
+  key: TGroupKey;
+  items: TItem[];
+};
+
+export type GroupHeaderProps<TItem, TGroupKey extends KeyableType> = {
+  group: Accessor<ItemGroup<TItem, TGroupKey>>;
+  isCollapsed: Accessor<boolean>;
+  toggle: () => void;
+  /** The id of the element wrapping the items of the group, for `aria-controls`. */
+  itemsId: string;
+};
+
+type KeyGroupProps<TItem, TKey extends KeyableType, TGroupKey extends KeyableType> = {
+  each?: TItem[];
+  by: (item: TItem) => TKey;
+  groupBy: (item: TItem) => TGroupKey;
+  children: (item: Accessor<TItem>, index: Accessor<number>) => JSX.Element;
+  header?: (props: GroupHeaderProps<TItem, TGroupKey>) => JSX.Element;
+  sortGroups?: (a: ItemGroup<TItem, TGroupKey>, b: ItemGroup<TItem, TGroupKey>) => number;
+  collapsed?: TGroupKey[];
+  defaultCollapsed?: TGroupKey[];
+  onToggleGroup?: (key: TGroupKey, isCollapsed: boolean) => void;
+  stickyHeaders?: boolean;
+  groupClass?: string;
+  headerClass?: string;
+  fallback?: JSX.Element;
+};
+
+/**
+ * A Solid.js component that groups a list of items and renders each group under a header, built on `Key`.
+ *
+ * Both groups and items are keyed, so their nodes are kept across updates as long as their keys are, even when groups
+ * are reordered. An item moving to another group is rendered anew in that group. Collapsed groups keep their items
+ * mounted but hidden, so item state survives collapsing.
+ *
+ * @example
+ *   <KeyGroup each={events()} by={(event) => event.id} groupBy={(event) => event.date}>
+ *     {(event) => <div>{event().title}</div>}
+ *   </KeyGroup>;
+ *
+ * @param props - The component properties.
+ * @param props.each - The list of items to group.
+ * @param props.by - The function that returns the key for each item.
+ * @param props.groupBy - The function that returns the key of the group of each item.
+ * @param props.children - The render function that receives the item and its index within its group.
+ * @param props.header - The render function of group headers. Defaults to a button showing the group key that toggles
+ *   the group.
+ * @param props.sortGroups - The comparison function for ordering groups. Defaults to the order groups first appear in.
+ * @param props.collapsed - The keys of the collapsed groups. Leave undefined to let the component manage its own state.
+ * @param props.defaultCollapsed - The keys of the groups that start collapsed.
+ * @param props.onToggleGroup - Called when a group is collapsed or expanded.
+ * @param props.stickyHeaders - Whether headers stick to the top of the scroll container. Defaults to true.
+ * @param props.groupClass - The class name for each group.
+ * @param props.headerClass - The class name for the wrapper of each header.
+ * @param props.fallback - The element rendered when the list is empty.
+ */
+export default function KeyGroup<TItem, TKey extends KeyableType, TGroupKey extends KeyableType>(
+  props: KeyGroupProps<TItem, TKey, TGroupKey>,
+): JSX.Element {
+  const [collapsedState, setCollapsedState] = createSignal(new Set(props.defaultCollapsed));
+  const id = createUniqueId();
+  let groupCount = 0;
+
+  const collapsedKeys = createMemo(() => (props.collapsed ? new Set(props.collapsed) : collapsedState()));
+
+  const groups = createMemo(() => {
+    const groupsByKey = new Map<TGroupKey, ItemGroup<TItem, TGroupKey>>();
+    for (const item of props.each || []) {
+      const key = props.groupBy(item);
+      const group = groupsByKey.get(key);
+      if (group) group.items.push(item);
+      else groupsByKey.set(key, { key, items: [item] });
+    }
+
+    const result = [...groupsByKey.values()];
+    return props.sortGroups ? result.sort(props.sortGroups) : result;
+  });
+
+  function toggleGroup(key: TGroupKey) {
+    const isCollapsed = !collapsedKeys().has(key);
+
+    setCollapsedState((keys) => {
+      const newKeys = new Set(keys);
+      if (isCollapsed) newKeys.add(key);
+      else newKeys.delete(key);
+      return newKeys;
+    });
+    props.onToggleGroup?.(key, isCollapsed);
+  }
+
+  return (
+    <Key each={groups()} by={(group) => group.key} fallback={props.fallback}>
+      {(group) => {
+        const itemsId = `${id}-group-${groupCount++}`;
+        const headerProps: GroupHeaderProps<TItem, TGroupKey> = {
+          group,
+          isCollapsed: () => collapsedKeys().has(group().key),
+          toggle: () => toggleGroup(group().key),
+          itemsId,
+        };
+
+        return (
+          <section class={mergeCls("ac-key-group", props.groupClass)}>
+            <div class={mergeCls({ "sticky top-0 z-10": props.stickyHeaders ?? true }, props.headerClass)}>
+              {props.header ? (
+                props.header(headerProps)
+              ) : (
+                <button
+                  type="button"
+                  onClick={headerProps.toggle}
+                  class="flex w-full items-center gap-1 px-4 py-2 text-start text-xs font-semibold text-gray-300"
+                  aria-expanded={!headerProps.isCollapsed()}
+                  aria-controls={itemsId}
+                >
+                  <span aria-hidden="true">
+                    <SvgIcon svg={headerProps.isCollapsed() ? chevronRightSvg : chevronDownSvg} alt="" class="size-4" />
+                  </span>
+                  {String(group().key)}
+                </button>
+              )}
+            </div>
+            <div id={itemsId} hidden={headerProps.isCollapsed()}>
+              <Key each={group().items} by={props.by}>
+                {props.children}
+              </Key>
+            </div>
+          </section>
+        );
+      }}
+    </Key>
+  );
+}
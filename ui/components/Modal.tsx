@@ -1,131 +1,726 @@
 import { mergeCls } from "acore-ts/ui/ClassHelpers";
-import DragHelper from "acore-ts/ui/DragHelper";
 import type { Offset } from "acore-ts/ui/models/Offset";
 import Position from "acore-ts/ui/models/Position";
-import type Size from "acore-ts/ui/models/Size";
-import ResizeHelper from "acore-ts/ui/ResizeHelper";
-import { createSignal, Show, type JSX } from "solid-js";
-import IconSvgs from "../constants/IconSvgs";
+import Size from "acore-ts/ui/models/Size";
+import { createEffect, createSignal, createUniqueId, For, on, onCleanup, Show, useContext, type JSX } from "solid-js";
+import { ModalManagerContext } from "../../providers/ModalManagerProvider";
+import {
+  close as closeSvg,
+  maximize as maximizeSvg,
+  minimize as minimizeSvg,
+  restore as restoreSvg,
+} from "../constants/IconSvgs";
+import WindowSnapHelper, { type SnapOptions, type SnapTarget } from "../helpers/WindowSnapHelper";
 import SvgIcon from "./SvgIcon";
 
 type IconComponent = (props: { icon: string; class?: string }) => JSX.Element;
 type ButtonComponent = (props: { onClick?: () => void; ariaLabel?: string; children?: JSX.Element }) => JSX.Element;
 
+type ModalTransition = "none" | "fade" | "scale" | "slide";
+
+type KeyboardMode = "move" | "resize";
+
+export type PointerType = "mouse" | "pen" | "touch" | "keyboard";
+
+type ResizeDirection = "n" | "e" | "s" | "w" | "ne" | "se" | "sw" | "nw";
+
+type PointerInteraction = {
+  kind: "drag" | "resize";
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startRect: { top: number; left: number; width: number; height: number };
+  direction?: ResizeDirection;
+};
+
+export type GeometryStorage = Pick<Storage, "getItem" | "setItem">;
+
+type PersistedGeometry = {
+  position?: { top: number; left: number };
+  size?: { width: number; height: number };
+  isMaximized: boolean;
+};
+
 type Props = {
+  activeClass?: string;
+  animateMaximize?: boolean;
+  backdropClass?: string;
+  blocking?: boolean;
   children: JSX.Element;
   class?: string;
+  closeOnEscape?: boolean;
   customHeaderButtons?: JSX.Element;
   draggable?: boolean;
   dragOffset?: Offset;
   headerClass?: string;
+  id?: string;
+  initialFocus?: string;
   isMaximized?: boolean;
+  isMinimized?: boolean;
   maximizable?: boolean;
   maximizeOffset?: Offset;
+  minimizable?: boolean;
+  onBeforeClose?: () => boolean | Promise<boolean>;
   onClick?: () => void;
   onClose?: () => void;
-  onDragEnd?: (event: MouseEvent, position: Position) => void;
-  onDragStart?: (event: MouseEvent, position: Position) => void;
-  onResize?: (event: Event, size: Size) => void;
-  onResizeEnd?: (event: Event, size: Size, position: Position) => void;
-  onResizeStart?: (event: Event, size: Size, position: Position) => void;
+  // A method signature, so handlers written for the earlier `MouseEvent` parameter still type check
+  onDragEnd?(event: MouseEvent | KeyboardEvent, position: Position, pointerType: PointerType): void;
+  onDragStart?: (event: PointerEvent, position: Position, pointerType: PointerType) => void;
+  onResize?: (event: PointerEvent, size: Size, pointerType: PointerType) => void;
+  onResizeEnd?: (event: Event, size: Size, position: Position, pointerType: PointerType) => void;
+  onResizeStart?: (event: PointerEvent, size: Size, position: Position, pointerType: PointerType) => void;
   onToggleMaximize?: (isMaximized: boolean) => void;
+  onToggleMinimize?: (isMinimized: boolean) => void;
+  open?: boolean;
+  persistKey?: string;
   position?: Position;
+  resizeHandleSize?: number;
   size?: Size;
+  snap?: boolean | SnapOptions;
+  snapPreviewClass?: string;
+  storage?: GeometryStorage;
   style?: JSX.CSSProperties;
   title?: string;
+  transition?: ModalTransition;
+  transitionDuration?: number;
+  trapFocus?: boolean;
   // Component dependencies
   IconComponent?: IconComponent;
   customButton?: ButtonComponent;
   // Icon identifiers
   closeIcon?: string;
   maximizeIcon?: string;
+  minimizeIcon?: string;
   // Translations
   maximizeAriaLabel?: string;
+  minimizeAriaLabel?: string;
   closeAriaLabel?: string;
+  keyboardMoveAnnouncement?: string;
+  keyboardResizeAnnouncement?: string;
+  formatGeometryAnnouncement?: (position: Position, size: Size) => string;
+};
+
+const DEFAULT_TRANSITION_DURATION = 200;
+const GEOMETRY_STORAGE_KEY_PREFIX = "ac-modal-geometry:";
+const KEYBOARD_STEP = 10;
+const KEYBOARD_LARGE_STEP = 50;
+const RESIZE_HANDLE_SIZE = 8;
+const TOUCH_RESIZE_HANDLE_SIZE = 24;
+const RESIZE_DIRECTIONS: ResizeDirection[] = ["n", "e", "s", "w", "ne", "se", "sw", "nw"];
+// The part of the modal that must stay inside the drag area horizontally
+const MIN_VISIBLE_DRAG_WIDTH = 48;
+const ARROW_KEY_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+};
+
+const FOCUSABLE_SELECTOR = [
+  "a[href]",
+  "area[href]",
+  "button:not([disabled])",
+  "input:not([disabled]):not([type='hidden'])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "iframe",
+  "[contenteditable]",
+  "[tabindex]:not([tabindex='-1'])",
+].join(",");
+
+const HIDDEN_TRANSFORMS: Record<ModalTransition, string | undefined> = {
+  none: undefined,
+  fade: undefined,
+  scale: "scale(0.95)",
+  slide: "translateY(1rem)",
 };
 
 /**
- * A modal component that can be dragged, resized, and maximized.
+ * A modal component that can be dragged, resized, maximized, and minimized.
+ *
+ * Dragging and resizing use Pointer Events, so they work with mouse, touch, and pen alike. The pointer type is passed
+ * to the drag and resize callbacks.
+ *
+ * Besides the pointer, the modal can be moved with Alt+F7 and resized with Alt+F8. In these modes the arrow keys change
+ * the geometry in steps (larger steps with Shift), Enter confirms and Escape reverts.
+ *
+ * When rendered inside a `ModalManagerProvider`, the modal registers itself as a window so that its z-index follows
+ * focus order and it is raised when clicked or dragged.
  *
  * @param props - The component properties.
+ * @param props.activeClass - The class name added to the modal container while it is the active window.
+ * @param props.animateMaximize - Whether maximizing and restoring animate between geometries. Defaults to true.
+ * @param props.backdropClass - The class name for the backdrop rendered in blocking mode.
+ * @param props.blocking - Whether the modal blocks the rest of the page with a backdrop and makes it inert.
  * @param props.children - The content of the modal.
  * @param props.class - The class name for the modal container.
+ * @param props.closeOnEscape - Whether pressing Escape inside the modal closes it. Defaults to true.
  * @param props.customHeaderButtons - The custom header buttons.
- * @param props.dragOffset - The offset for dragging the modal.
+ * @param props.dragOffset - The offset kept free around the viewport while dragging. The header of the modal cannot be
+ *   dragged into it.
  * @param props.headerClass - The class name for the header.
+ * @param props.id - The window identifier used by the modal manager.
+ * @param props.initialFocus - The selector of the element to focus when the modal opens. Defaults to the first
+ *   focusable element, or the modal itself.
  * @param props.isMaximized - Whether the modal is maximized.
+ * @param props.isMinimized - Whether the modal is minimized.
  * @param props.maximizable - Whether the modal can be maximized.
  * @param props.maximizeOffset - The offset for maximizing the modal.
+ * @param props.minimizable - Whether the modal can be minimized. A minimized modal stays mounted but hidden, so it
+ *   should be paired with a way to restore it such as `ModalTaskbar`.
+ * @param props.onBeforeClose - Called before the modal closes. Returning or resolving to false, or throwing, cancels
+ *   the close.
  * @param props.onClick - The click event handler for the modal.
  * @param props.onClose - The close event handler for the modal.
- * @param props.onDragEnd - The drag end event handler.
+ * @param props.onDragEnd - The drag end event handler. Also called for each step of keyboard move mode, with the
+ *   `keyboard` pointer type.
  * @param props.onDragStart - The drag start event handler.
  * @param props.onResize - The resize event handler.
  * @param props.onResizeEnd - The resize end event handler.
  * @param props.onResizeStart - The resize start event handler.
  * @param props.onToggleMaximize - The event handler for toggling maximize state.
+ * @param props.onToggleMinimize - The event handler for toggling minimize state.
+ * @param props.open - Whether the modal is open. When provided, the modal is controlled and closing only calls
+ *   `onClose`, leaving it to the parent to update this prop.
+ * @param props.persistKey - The key under which the position, size, and maximized state are persisted and restored on
+ *   mount. Restored geometry is clamped to the current viewport.
  * @param props.position - The position of the modal.
+ * @param props.resizeHandleSize - The size of the resize handles in pixels. Defaults to a larger size on coarse
+ *   pointers such as touch screens.
  * @param props.size - The size of the modal.
+ * @param props.snap - Whether dragging snaps the modal. Dropping it at the left or right screen edge docks it to half
+ *   the viewport, dropping it at the top edge maximizes it, and it snaps to the grid and to the edges of other windows
+ *   of the modal manager. Docking respects `maximizeOffset`.
+ * @param props.snapPreviewClass - The class name for the preview shown while dragging over a snap target.
+ * @param props.storage - The storage used for persisting geometry. Defaults to `localStorage`.
  * @param props.style - The style properties for the modal.
  * @param props.title - The title of the modal.
+ * @param props.transition - The enter and exit transition. The modal stays mounted until the exit transition ends.
+ * @param props.transitionDuration - The duration of the transitions in milliseconds.
+ * @param props.trapFocus - Whether Tab navigation is kept inside the modal. Defaults to the `blocking` value.
  * @param props.IconComponent - The icon component.
  * @param props.ButtonComponent - The button component.
  * @param props.closeIcon - The icon identifier for the close button.
  * @param props.maximizeIcon - The icon identifier for the maximize button.
+ * @param props.minimizeIcon - The icon identifier for the minimize button.
  * @param props.maximizeAriaLabel - The aria label for the maximize button.
+ * @param props.minimizeAriaLabel - The aria label for the minimize button.
  * @param props.closeAriaLabel - The aria label for the close button.
+ * @param props.keyboardMoveAnnouncement - The screen reader announcement when entering keyboard move mode.
+ * @param props.keyboardResizeAnnouncement - The screen reader announcement when entering keyboard resize mode.
+ * @param props.formatGeometryAnnouncement - Formats the screen reader announcement of the geometry after a keyboard
+ *   step.
  */
 export default function Modal(props: Props) {
   const maximizable = props.maximizable ?? true;
+  const minimizable = props.minimizable ?? false;
   const draggable = props.draggable ?? true;
+  const id = props.id ?? createUniqueId();
+  const modalManager = useContext(ModalManagerContext);
 
-  const [isModalOpen, setIsModalOpen] = createSignal(true);
-  const [isMaximized, setIsMaximized] = createSignal(props.isMaximized ?? false);
+  const transition = props.transition ?? "none";
+  const transitionDuration = props.transitionDuration ?? DEFAULT_TRANSITION_DURATION;
 
-  function onContainerMount(element: HTMLElement) {
-    if (draggable) {
-      DragHelper.makeDraggableElement(element, {
-        onDragStart,
-        onDragEnd,
-        offset: props.dragOffset,
-      });
-    }
+  const [isOpenState, setIsOpenState] = createSignal(true);
+  const isModalOpen = () => props.open ?? isOpenState();
+  // Rendering outlives the open state while the exit transition runs
+  const [isRendered, setIsRendered] = createSignal(isModalOpen());
+  const [isVisible, setIsVisible] = createSignal(isModalOpen() && transition === "none");
+  const [isAnimatingGeometry, setIsAnimatingGeometry] = createSignal(false);
+  const [snapTarget, setSnapTarget] = createSignal<SnapTarget | null>(null);
+  const [keyboardMode, setKeyboardMode] = createSignal<KeyboardMode | null>(null);
+  const [announcement, setAnnouncement] = createSignal("");
+  const persistedGeometry = loadGeometry();
+  const [isMaximized, setIsMaximized] = createSignal(persistedGeometry?.isMaximized ?? props.isMaximized ?? false);
+  const [isMinimized, setIsMinimized] = createSignal(props.isMinimized ?? false);
+  // Last known geometry, so restoring from maximized or minimized state keeps where the user left the modal
+  const [position, setPosition] = createSignal(persistedGeometry?.position ?? props.position);
+  const [size, setSize] = createSignal(persistedGeometry?.size ?? props.size);
+  const isDialogActive = () => isRendered() && isModalOpen() && !isMinimized();
+  const titleId = `${id}-title`;
+  const resizeHandleSize =
+    props.resizeHandleSize ??
+    (window.matchMedia("(pointer: coarse)").matches ? TOUCH_RESIZE_HANDLE_SIZE : RESIZE_HANDLE_SIZE);
+
+  createEffect(on(() => props.position, setPosition, { defer: true }));
+  createEffect(on(() => props.size, setSize, { defer: true }));
+  createEffect(on([position, size, isMaximized], saveGeometry, { defer: true }));
+
+  let containerElement: HTMLElement | undefined;
+  let backdropElement: HTMLDivElement | undefined;
+  let previouslyFocusedElement: HTMLElement | null = null;
+  let sizeBeforeDocking: Size | undefined;
+  let geometryBeforeKeyboardMode: { position: Position; size: Size } | undefined;
+  let pointerInteraction: PointerInteraction | undefined;
+  let restoreOutsideInert: (() => void) | undefined;
+  let transitionTimeout: ReturnType<typeof setTimeout> | undefined;
+  let geometryAnimationTimeout: ReturnType<typeof setTimeout> | undefined;
+  let isClosePending = false;
+
+  createEffect(on(isModalOpen, onOpenChange));
+  createEffect(on(isDialogActive, (isActive) => (isActive ? activateDialog() : deactivateDialog())));
 
-    ResizeHelper.makeResizableElement(element, {
-      onResizeStart: (event, size) => {
-        props.onResizeStart?.(event, size, new Position(element.offsetTop, element.offsetLeft));
+  onCleanup(() => {
+    clearTimeout(transitionTimeout);
+    clearTimeout(geometryAnimationTimeout);
+    deactivateDialog();
+  });
+
+  createEffect(() => {
+    if (!modalManager || !isModalOpen()) return;
+
+    modalManager.register({
+      id,
+      get title() {
+        return props.title;
+      },
+      get isMinimized() {
+        return isMinimized();
       },
-      onResizeEnd: (event, size) => {
-        props.onResizeEnd?.(event, size, new Position(element.offsetTop, element.offsetLeft));
+      get element() {
+        return containerElement;
+      },
+      close,
+      minimize: () => {
+        if (!isMinimized()) toggleMinimize();
+      },
+      restore: () => {
+        if (isMinimized()) toggleMinimize();
       },
     });
+    onCleanup(() => modalManager.unregister(id));
+  });
+
+  function loadGeometry() {
+    if (!props.persistKey) return;
+
+    let geometry: PersistedGeometry;
+    // Accessing `localStorage` itself throws where storage is blocked, as in sandboxed iframes
+    try {
+      const serializedGeometry = (props.storage ?? localStorage).getItem(
+        GEOMETRY_STORAGE_KEY_PREFIX + props.persistKey,
+      );
+      if (!serializedGeometry) return;
+      geometry = JSON.parse(serializedGeometry);
+    } catch {
+      return;
+    }
+
+    // Clamp to the viewport, the screen may have gotten smaller since the geometry was saved
+    const size = geometry.size
+      ? new Size(Math.min(geometry.size.width, window.innerWidth), Math.min(geometry.size.height, window.innerHeight))
+      : undefined;
+    const position = geometry.position
+      ? new Position(
+          clamp(geometry.position.top, 0, window.innerHeight - (size?.height ?? 0)),
+          clamp(geometry.position.left, 0, window.innerWidth - (size?.width ?? 0)),
+        )
+      : undefined;
+
+    return { position, size, isMaximized: geometry.isMaximized };
+  }
+
+  function saveGeometry() {
+    if (!props.persistKey) return;
+
+    const geometry: PersistedGeometry = {
+      position: position() && { top: position()!.top, left: position()!.left },
+      size: size() && { width: size()!.width, height: size()!.height },
+      isMaximized: isMaximized(),
+    };
+    try {
+      (props.storage ?? localStorage).setItem(GEOMETRY_STORAGE_KEY_PREFIX + props.persistKey, JSON.stringify(geometry));
+    } catch {
+      // The storage is full or blocked, the geometry is then only kept for this session
+    }
+  }
+
+  function onContainerMount(element: HTMLElement) {
+    containerElement = element;
   }
 
-  function toggleModal() {
-    setIsModalOpen(!isModalOpen());
+  function onOpenChange(isOpen: boolean) {
+    clearTimeout(transitionTimeout);
+
+    if (transition === "none") {
+      setIsRendered(isOpen);
+      setIsVisible(isOpen);
+      return;
+    }
+
+    if (isOpen) {
+      setIsRendered(true);
+      // Wait for the hidden state to be painted so the enter transition has a starting point
+      requestAnimationFrame(() => requestAnimationFrame(() => setIsVisible(isModalOpen())));
+    } else {
+      setIsVisible(false);
+      transitionTimeout = setTimeout(() => setIsRendered(false), transitionDuration);
+    }
+  }
+
+  function activateDialog() {
+    if (!containerElement) return;
+
+    previouslyFocusedElement = document.activeElement as HTMLElement | null;
+    if (props.blocking) restoreOutsideInert = makeOutsideInert(containerElement, backdropElement);
+
+    const initialFocusElement =
+      (props.initialFocus && containerElement.querySelector<HTMLElement>(props.initialFocus)) ||
+      containerElement.querySelector("main")?.querySelector<HTMLElement>(FOCUSABLE_SELECTOR) ||
+      containerElement;
+    initialFocusElement.focus();
+  }
+
+  function deactivateDialog() {
+    restoreOutsideInert?.();
+    restoreOutsideInert = undefined;
+
+    if (previouslyFocusedElement?.isConnected) previouslyFocusedElement.focus();
+    previouslyFocusedElement = null;
+  }
+
+  function onKeyDown(event: KeyboardEvent) {
+    if (keyboardMode()) {
+      onKeyboardModeKeyDown(event);
+      return;
+    }
+
+    if (event.altKey && (event.key === "F7" || event.key === "F8")) {
+      event.preventDefault();
+      enterKeyboardMode(event.key === "F7" ? "move" : "resize");
+      return;
+    }
+
+    if (event.key === "Escape" && (props.closeOnEscape ?? true)) {
+      event.preventDefault();
+      close();
+      return;
+    }
+
+    if (event.key === "Tab" && (props.trapFocus ?? props.blocking)) trapTabNavigation(event);
+  }
+
+  function enterKeyboardMode(mode: KeyboardMode) {
+    if (!containerElement || isMaximized() || (mode === "move" && !draggable)) return;
+
+    geometryBeforeKeyboardMode = { position: getCurrentPosition(), size: getCurrentSize() };
+    setKeyboardMode(mode);
+    setAnnouncement(
+      mode === "move"
+        ? (props.keyboardMoveAnnouncement ??
+            "Move mode. Use the arrow keys to move the window, Enter to confirm, Escape to cancel.")
+        : (props.keyboardResizeAnnouncement ??
+            "Resize mode. Use the arrow keys to resize the window, Enter to confirm, Escape to cancel."),
+    );
+  }
+
+  function onKeyboardModeKeyDown(event: KeyboardEvent) {
+    const direction = ARROW_KEY_DIRECTIONS[event.key];
+    if (direction) {
+      event.preventDefault();
+      const step = event.shiftKey ? KEYBOARD_LARGE_STEP : KEYBOARD_STEP;
+      if (keyboardMode() === "move") moveByKeyboard(event, direction.x * step, direction.y * step);
+      else resizeByKeyboard(event, direction.x * step, direction.y * step);
+      return;
+    }
+
+    if (event.key === "Enter" || event.key === "Escape" || event.key === "Tab") {
+      if (event.key !== "Tab") event.preventDefault();
+      if (event.key === "Escape" && geometryBeforeKeyboardMode) {
+        const { position, size } = geometryBeforeKeyboardMode;
+        setPosition(position);
+        setSize(size);
+        announceGeometry();
+
+        // Report the reverted geometry like the changes being reverted
+        if (keyboardMode() === "move") props.onDragEnd?.(event, position, "keyboard");
+        else props.onResizeEnd?.(event, size, position, "keyboard");
+      }
+
+      geometryBeforeKeyboardMode = undefined;
+      setKeyboardMode(null);
+    }
+  }
+
+  function moveByKeyboard(event: KeyboardEvent, deltaX: number, deltaY: number) {
+    const current = getCurrentPosition();
+    // Keep the window within the drag area, as pointer drags do
+    const position = clampToDragArea(current.top + deltaY, current.left + deltaX);
+    setPosition(position);
+    announceGeometry();
+    props.onDragEnd?.(event, position, "keyboard");
+  }
+
+  function resizeByKeyboard(event: KeyboardEvent, deltaWidth: number, deltaHeight: number) {
+    const current = getCurrentSize();
+    setSize(new Size(Math.max(current.width + deltaWidth, 0), Math.max(current.height + deltaHeight, 0)));
+    // Read the size back, as the minimum size of the container may have been applied
+    const size = getCurrentSize();
+    setSize(size);
+    announceGeometry();
+    props.onResizeEnd?.(event, size, getCurrentPosition(), "keyboard");
+  }
+
+  function getCurrentPosition() {
+    return new Position(containerElement!.offsetTop, containerElement!.offsetLeft);
+  }
+
+  function getCurrentSize() {
+    return new Size(containerElement!.offsetWidth, containerElement!.offsetHeight);
+  }
+
+  function announceGeometry() {
+    const position = getCurrentPosition();
+    const size = getCurrentSize();
+    setAnnouncement(
+      props.formatGeometryAnnouncement?.(position, size) ??
+        `Position ${position.left}, ${position.top}. Size ${size.width} by ${size.height}.`,
+    );
+  }
+
+  function trapTabNavigation(event: KeyboardEvent) {
+    const focusableElements = Array.from(containerElement!.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    if (!focusableElements.length) {
+      event.preventDefault();
+      return;
+    }
+
+    const first = focusableElements[0];
+    const last = focusableElements.at(-1)!;
+    const isFocusOutside = !containerElement!.contains(document.activeElement);
+
+    if (event.shiftKey && (document.activeElement === first || isFocusOutside)) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && (document.activeElement === last || isFocusOutside)) {
+      event.preventDefault();
+      first.focus();
+    }
+  }
+
+  async function close() {
+    // Ignore repeated requests while a close confirmation is still open
+    if (isClosePending) return;
+
+    if (props.onBeforeClose) {
+      isClosePending = true;
+      let canClose: boolean;
+      try {
+        canClose = await props.onBeforeClose();
+      } catch (error) {
+        // Callers do not await the close, so a failing check is reported here and cancels it
+        //eslint-disable-next-line no-console
+        console.warn("Modal: onBeforeClose failed, so the modal stays open", error);
+        canClose = false;
+      } finally {
+        isClosePending = false;
+      }
+      if (!canClose) return;
+    }
+
+    if (props.open === undefined) setIsOpenState(false);
     props.onClose?.();
   }
 
   function toggleMaximize() {
     if (!maximizable) return;
 
+    if (props.animateMaximize ?? true) {
+      clearTimeout(geometryAnimationTimeout);
+      setIsAnimatingGeometry(true);
+      geometryAnimationTimeout = setTimeout(() => setIsAnimatingGeometry(false), transitionDuration);
+    }
+
     const nextIsMaximizedValue: boolean = !isMaximized();
     setIsMaximized(nextIsMaximizedValue);
     props.onToggleMaximize?.(nextIsMaximizedValue);
   }
 
+  function toggleMinimize() {
+    if (!minimizable) return;
+
+    const nextIsMinimizedValue: boolean = !isMinimized();
+    setIsMinimized(nextIsMinimizedValue);
+    props.onToggleMinimize?.(nextIsMinimizedValue);
+  }
+
   function onClick(event: MouseEvent) {
+    modalManager?.focus(id);
     if (isHeaderButton(event.target as HTMLElement)) return;
 
     props.onClick?.();
   }
 
-  function onDragStart(event: MouseEvent, position: Position) {
-    props.onDragStart?.(event, position);
+  function onHeaderPointerDown(event: PointerEvent) {
+    if (!draggable || isMaximized() || event.button !== 0 || isHeaderButton(event.target as HTMLElement)) return;
+
+    startPointerInteraction(event, "drag");
+    modalManager?.focus(id);
+
+    if (props.snap && sizeBeforeDocking) {
+      // Leaving a docked layout brings back the size the modal had before docking
+      setSize(sizeBeforeDocking);
+      sizeBeforeDocking = undefined;
+    }
+
+    props.onDragStart?.(event, getCurrentPosition(), event.pointerType as PointerType);
+  }
+
+  function onResizeHandlePointerDown(event: PointerEvent, direction: ResizeDirection) {
+    if (event.button !== 0) return;
+
+    startPointerInteraction(event, "resize", direction);
+    props.onResizeStart?.(event, getCurrentSize(), getCurrentPosition(), event.pointerType as PointerType);
+  }
+
+  function startPointerInteraction(event: PointerEvent, kind: PointerInteraction["kind"], direction?: ResizeDirection) {
+    event.preventDefault();
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+
+    pointerInteraction = {
+      kind,
+      direction,
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      startRect: {
+        top: containerElement!.offsetTop,
+        left: containerElement!.offsetLeft,
+        width: containerElement!.offsetWidth,
+        height: containerElement!.offsetHeight,
+      },
+    };
+  }
+
+  function onPointerMove(event: PointerEvent) {
+    if (pointerInteraction?.pointerId !== event.pointerId) return;
+
+    const deltaX = event.clientX - pointerInteraction.startX;
+    const deltaY = event.clientY - pointerInteraction.startY;
+
+    // The element is updated directly while the pointer moves, the signals follow once the interaction ends
+    if (pointerInteraction.kind === "drag") {
+      const position = clampToDragArea(
+        pointerInteraction.startRect.top + deltaY,
+        pointerInteraction.startRect.left + deltaX,
+      );
+      containerElement!.style.top = `${position.top}px`;
+      containerElement!.style.left = `${position.left}px`;
+
+      if (props.snap) updateSnapTarget(event);
+    } else {
+      const rect = getResizedRect(pointerInteraction, deltaX, deltaY);
+      Object.assign(containerElement!.style, {
+        top: `${rect.top}px`,
+        left: `${rect.left}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+      });
+
+      props.onResize?.(event, getCurrentSize(), event.pointerType as PointerType);
+    }
+  }
+
+  function onPointerUp(event: PointerEvent) {
+    if (pointerInteraction?.pointerId !== event.pointerId) return;
+
+    const { kind } = pointerInteraction;
+    pointerInteraction = undefined;
+
+    if (kind === "drag") onDragEnd(event);
+    else onResizeEnd(event);
+  }
+
+  function onDragEnd(event: PointerEvent) {
+    const pointerType = event.pointerType as PointerType;
+    const target = snapTarget();
+    setSnapTarget(null);
+
+    let position = getCurrentPosition();
+    if (target && target.kind !== "maximize") position = applySnapTarget(event, target);
+    else {
+      // The drag moved the element directly, and restoring from a maximize returns to this position
+      setPosition(position);
+      if (target && !isMaximized()) toggleMaximize();
+    }
+
+    props.onDragEnd?.(event, position, pointerType);
+  }
+
+  function onResizeEnd(event: PointerEvent) {
+    const position = getCurrentPosition();
+    const size = getCurrentSize();
+    setPosition(position);
+    setSize(size);
+
+    props.onResizeEnd?.(event, size, position, event.pointerType as PointerType);
+  }
+
+  function clampToDragArea(top: number, left: number) {
+    const area = WindowSnapHelper.getAvailableArea(props.dragOffset);
+    const headerHeight = containerElement!.querySelector("header")?.offsetHeight ?? 0;
+    const width = containerElement!.offsetWidth;
+
+    return new Position(
+      clamp(top, area.top, area.top + area.height - headerHeight),
+      clamp(left, area.left - width + MIN_VISIBLE_DRAG_WIDTH, area.left + area.width - MIN_VISIBLE_DRAG_WIDTH),
+    );
+  }
+
+  function getResizedRect(interaction: PointerInteraction, deltaX: number, deltaY: number) {
+    const { direction, startRect } = interaction;
+    const computedStyle = getComputedStyle(containerElement!);
+    const minWidth = parseFloat(computedStyle.minWidth) || 0;
+    const minHeight = parseFloat(computedStyle.minHeight) || 0;
+    let { top, left, width, height } = startRect;
+
+    if (direction!.includes("e")) width = Math.max(width + deltaX, minWidth);
+    if (direction!.includes("s")) height = Math.max(height + deltaY, minHeight);
+    if (direction!.includes("w")) {
+      width = Math.max(width - deltaX, minWidth);
+      left = startRect.left + startRect.width - width;
+    }
+    if (direction!.includes("n")) {
+      height = Math.max(height - deltaY, minHeight);
+      top = startRect.top + startRect.height - height;
+    }
+
+    return { top, left, width, height };
+  }
+
+  function updateSnapTarget(event: PointerEvent) {
+    if (!containerElement) return;
+
+    const otherRects = (modalManager?.windows() ?? [])
+      .filter((w) => w.id !== id && !w.isMinimized && w.element)
+      .map((w) => w.element!.getBoundingClientRect());
+    const snapOptions = typeof props.snap === "object" ? props.snap : {};
+
+    const target = WindowSnapHelper.getSnapTarget(
+      { x: event.clientX, y: event.clientY },
+      containerElement.getBoundingClientRect(),
+      otherRects,
+      snapOptions,
+      props.maximizeOffset,
+    );
+    setSnapTarget(target?.kind === "maximize" && !maximizable ? null : target);
   }
 
-  function onDragEnd(event: MouseEvent, position: Position) {
-    props.onDragEnd?.(event, position);
+  function applySnapTarget(event: PointerEvent, target: SnapTarget) {
+    const position = new Position(target.rect.top, target.rect.left);
+    setPosition(position);
+    // Dragging moves the element directly, so make sure it matches the snapped position
+    containerElement!.style.top = `${position.top}px`;
+    containerElement!.style.left = `${position.left}px`;
+
+    if (target.kind === "dockLeft" || target.kind === "dockRight") {
+      sizeBeforeDocking ??= new Size(containerElement!.offsetWidth, containerElement!.offsetHeight);
+      const size = new Size(target.rect.width, target.rect.height);
+      setSize(size);
+      props.onResizeEnd?.(event, size, position, event.pointerType as PointerType);
+    }
+
+    return position;
   }
 
   function isHeaderButton(targetElement: HTMLElement) {
@@ -140,107 +735,250 @@ export default function Modal(props: Props) {
   }
 
   return (
-    <Show when={isModalOpen()}>
+    <Show when={isRendered()}>
+      <Show when={props.blocking}>
+        <div
+          ref={backdropElement}
+          class={mergeCls("fixed inset-0 bg-black/50", props.backdropClass)}
+          style={{
+            display: isMinimized() ? "none" : undefined,
+            opacity: isVisible() ? undefined : "0",
+            transition: transition !== "none" ? `opacity ${transitionDuration}ms ease-in-out` : undefined,
+            "z-index": modalManager ? modalManager.getZIndex(id) : undefined,
+          }}
+          aria-hidden="true"
+        />
+      </Show>
+
+      <Show when={snapTarget()}>
+        {(target) => (
+          <div
+            class={mergeCls(
+              "pointer-events-none fixed rounded border-2 border-blue-400 bg-blue-400/20",
+              props.snapPreviewClass,
+            )}
+            style={{
+              top: `${target().rect.top}px`,
+              left: `${target().rect.left}px`,
+              width: `${target().rect.width}px`,
+              height: `${target().rect.height}px`,
+              "z-index": modalManager ? modalManager.getZIndex(id) : undefined,
+            }}
+            aria-hidden="true"
+          />
+        )}
+      </Show>
+
       <div
         ref={onContainerMount}
+        id={id}
+        role="dialog"
+        aria-modal={props.blocking || undefined}
+        aria-labelledby={props.title ? titleId : undefined}
+        tabIndex={-1}
+        data-keyboard-mode={keyboardMode() ?? undefined}
         onClick={onClick}
+        onKeyDown={onKeyDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
         class={mergeCls(
           "fixed flex min-h-52 min-w-60 transform flex-col overflow-hidden rounded border border-gray-300",
           props.class,
+          modalManager?.isActive(id) ? props.activeClass : undefined,
         )}
+        aria-hidden={isMinimized() || undefined}
         style={{
-          top:
-            (isMaximized() ?? maximizable)
-              ? `${0 + (props.maximizeOffset?.top ?? 0)}px`
-              : props.position?.top
-                ? `${props.position.top}px`
-                : "15%",
-          left:
-            (isMaximized() ?? maximizable)
-              ? `${0 + (props.maximizeOffset?.left ?? 0)}px`
-              : props.position?.left
-                ? `${props.position.left}px`
-                : "15%",
-          right: (isMaximized() ?? maximizable) ? `${0 + (props.maximizeOffset?.right ?? 0)}px` : undefined,
-          bottom: (isMaximized() ?? maximizable) ? `${0 + (props.maximizeOffset?.bottom ?? 0)}px` : undefined,
-          width:
-            (isMaximized() ?? maximizable)
-              ? `calc(100vw - ${props.maximizeOffset?.left ?? 0}px - ${props.maximizeOffset?.right ?? 0}px)`
-              : props.size?.width
-                ? `${props.size.width}px`
-                : "70vw",
-          height:
-            (isMaximized() ?? maximizable)
-              ? `calc(100svh - ${props.maximizeOffset?.top ?? 0}px - ${props.maximizeOffset?.bottom ?? 0}px)`
-              : props.size?.height
-                ? `${props.size.height}px`
-                : "70svh",
+          top: isMaximized()
+            ? `${0 + (props.maximizeOffset?.top ?? 0)}px`
+            : position()
+              ? `${position()!.top}px`
+              : "15%",
+          left: isMaximized()
+            ? `${0 + (props.maximizeOffset?.left ?? 0)}px`
+            : position()
+              ? `${position()!.left}px`
+              : "15%",
+          right: isMaximized() ? `${0 + (props.maximizeOffset?.right ?? 0)}px` : undefined,
+          bottom: isMaximized() ? `${0 + (props.maximizeOffset?.bottom ?? 0)}px` : undefined,
+          width: isMaximized()
+            ? `calc(100vw - ${props.maximizeOffset?.left ?? 0}px - ${props.maximizeOffset?.right ?? 0}px)`
+            : size()?.width
+              ? `${size()!.width}px`
+              : "70vw",
+          height: isMaximized()
+            ? `calc(100svh - ${props.maximizeOffset?.top ?? 0}px - ${props.maximizeOffset?.bottom ?? 0}px)`
+            : size()?.height
+              ? `${size()!.height}px`
+              : "70svh",
+          display: isMinimized() ? "none" : undefined,
+          opacity: isVisible() ? undefined : "0",
+          transform: isVisible() ? undefined : HIDDEN_TRANSFORMS[transition],
+          transition: getTransitionValue(),
+          "z-index": modalManager ? modalManager.getZIndex(id) : undefined,
           ...props.style,
         }}
       >
         <header
-          class={mergeCls("flex items-center justify-between gap-2 p-2", props.headerClass)}
+          class={mergeCls(
+            "flex items-center justify-between gap-2 p-2",
+            { "touch-none": draggable },
+            props.headerClass,
+          )}
+          onPointerDown={onHeaderPointerDown}
           onDblClick={onHeaderDoubleClick}
         >
-          <h2 class="m-0 text-xl font-semibold">{props.title}</h2>
+          <h2 id={titleId} class="m-0 text-xl font-semibold">
+            {props.title}
+          </h2>
 
           <div class="ac-header-buttons flex cursor-pointer items-center justify-between gap-1">
             {props.customHeaderButtons}
 
-            <Show when={maximizable}>
-              <Show
-                when={props.customButton}
-                fallback={
-                  <button
-                    onClick={toggleMaximize}
-                    class="rounded p-1 text-gray-500 transition-colors duration-200 ease-in-out hover:bg-gray-100"
-                    aria-label={props.maximizeAriaLabel}
-                  >
-                    <SvgIcon svg={IconSvgs.maximize} class="size-4" alt="Maximize icon" />
-                  </button>
-                }
-              >
-                {props.customButton && (
-                  <props.customButton onClick={toggleMaximize} ariaLabel={props.closeAriaLabel}>
-                    <Show
-                      when={props.IconComponent}
-                      fallback={<SvgIcon svg={IconSvgs.maximize} class="size-4" alt="Maximize icon" />}
-                    >
-                      {props.IconComponent && <props.IconComponent icon={props.maximizeIcon!} class="size-4" />}
-                    </Show>
-                  </props.customButton>
-                )}
-              </Show>
+            <Show when={minimizable}>
+              <HeaderButton
+                onClick={toggleMinimize}
+                ariaLabel={props.minimizeAriaLabel}
+                class="rounded p-1 text-gray-500 transition-colors duration-200 ease-in-out hover:bg-gray-100"
+                iconSvg={minimizeSvg}
+                iconAlt="Minimize icon"
+                icon={props.minimizeIcon}
+                IconComponent={props.IconComponent}
+                customButton={props.customButton}
+              />
             </Show>
 
-            <Show
-              when={props.customButton}
-              fallback={
-                <button
-                  onClick={toggleModal}
-                  class="rounded p-1 text-gray-300 transition-colors duration-200 ease-in-out hover:bg-gray-700 hover:text-white"
-                  aria-label={props.closeAriaLabel}
-                >
-                  <SvgIcon svg={IconSvgs.close} class="size-4" alt="Close icon" />
-                </button>
-              }
-            >
-              {props.customButton && (
-                <props.customButton onClick={toggleModal} ariaLabel={props.closeAriaLabel}>
-                  <Show
-                    when={props.IconComponent}
-                    fallback={<SvgIcon svg={IconSvgs.close} class="size-4" alt="Close icon" />}
-                  >
-                    {props.IconComponent && <props.IconComponent icon={props.closeIcon!} class="size-4" />}
-                  </Show>
-                </props.customButton>
-              )}
+            <Show when={maximizable}>
+              <HeaderButton
+                onClick={toggleMaximize}
+                ariaLabel={props.maximizeAriaLabel}
+                class="rounded p-1 text-gray-500 transition-colors duration-200 ease-in-out hover:bg-gray-100"
+                iconSvg={isMaximized() ? restoreSvg : maximizeSvg}
+                iconAlt={isMaximized() ? "Restore icon" : "Maximize icon"}
+                icon={props.maximizeIcon}
+                IconComponent={props.IconComponent}
+                customButton={props.customButton}
+              />
             </Show>
+
+            <HeaderButton
+              onClick={close}
+              ariaLabel={props.closeAriaLabel}
+              class="rounded p-1 text-gray-300 transition-colors duration-200 ease-in-out hover:bg-gray-700 hover:text-white"
+              iconSvg={closeSvg}
+              iconAlt="Close icon"
+              icon={props.closeIcon}
+              IconComponent={props.IconComponent}
+              customButton={props.customButton}
+            />
           </div>
         </header>
 
         <main class="flex-grow overflow-auto">{props.children}</main>
+
+        <Show when={!isMaximized()}>
+          <For each={RESIZE_DIRECTIONS}>
+            {(direction) => (
+              <div
+                class="absolute z-10 touch-none"
+                style={getResizeHandleStyle(direction, resizeHandleSize)}
+                onPointerDown={(event) => onResizeHandlePointerDown(event, direction)}
+                aria-hidden="true"
+              />
+            )}
+          </For>
+        </Show>
+
+        <div class="sr-only" aria-live="polite" aria-atomic="true">
+          {announcement()}
+        </div>
       </div>
     </Show>
   );
+
+  function getTransitionValue() {
+    const properties: string[] = [];
+    if (transition !== "none") properties.push("opacity", "transform");
+    if (isAnimatingGeometry()) properties.push("top", "left", "width", "height");
+
+    return properties.map((property) => `${property} ${transitionDuration}ms ease-in-out`).join(", ") || undefined;
+  }
+}
+
+function getResizeHandleStyle(direction: ResizeDirection, size: number): JSX.CSSProperties {
+  const isCorner = direction.length === 2;
+  const style: JSX.CSSProperties = { cursor: `${direction}-resize` };
+
+  if (direction.includes("n")) style.top = "0";
+  if (direction.includes("s")) style.bottom = "0";
+  if (direction.includes("w")) style.left = "0";
+  if (direction.includes("e")) style.right = "0";
+
+  if (isCorner || direction === "n" || direction === "s") style.height = `${size}px`;
+  if (isCorner || direction === "e" || direction === "w") style.width = `${size}px`;
+  // Edges span the side between the corners
+  if (direction === "n" || direction === "s") Object.assign(style, { left: `${size}px`, right: `${size}px` });
+  if (direction === "e" || direction === "w") Object.assign(style, { top: `${size}px`, bottom: `${size}px` });
+
+  return style;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(value, Math.max(min, max)));
+}
+
+/**
+ * Makes every element outside the given element inert, walking up to the body so that only the element's branch stays
+ * interactive.
+ *
+ * @returns A function that restores the elements made inert.
+ */
+function makeOutsideInert(element: HTMLElement, ...excludedElements: (HTMLElement | undefined)[]) {
+  const inertElements: HTMLElement[] = [];
+
+  for (let node = element; node.parentElement && node !== document.body; node = node.parentElement) {
+    for (const sibling of Array.from(node.parentElement.children) as HTMLElement[]) {
+      if (sibling === node || sibling.inert || excludedElements.includes(sibling)) continue;
+
+      sibling.inert = true;
+      inertElements.push(sibling);
+    }
+  }
+
+  return () => {
+    for (const inertElement of inertElements) inertElement.inert = false;
+  };
+}
+
+function HeaderButton(props: {
+  onClick: () => void;
+  ariaLabel?: string;
+  class: string;
+  iconSvg: string;
+  iconAlt: string;
+  icon?: string;
+  IconComponent?: IconComponent;
+  customButton?: ButtonComponent;
+}) {
+  return (
+    <Show
+      when={props.customButton}
+      fallback={
+        <button onClick={props.onClick} class={props.class} aria-label={props.ariaLabel}>
+          <SvgIcon svg={props.iconSvg} class="size-4" alt={props.iconAlt} />
+        </button>
+      }
+    >
+      {props.customButton && (
+        <props.customButton onClick={props.onClick} ariaLabel={props.ariaLabel}>
+          <Show
+            when={props.IconComponent}
+            fallback={<SvgIcon svg={props.iconSvg} class="size-4" alt={props.iconAlt} />}
+          >
+            {props.IconComponent && <props.IconComponent icon={props.icon!} class="size-4" />}
+          </Show>
+        </props.customButton>
+      )}
+    </Show>
+  );
 }
@@ -0,0 +1,87 @@
+import { mergeCls } from "acore-ts/ui/ClassHelpers";
+import { For, Show, type JSX } from "solid-js";
+import { useModalManager, type ModalWindow } from "../../providers/ModalManagerProvider";
+
+type ButtonComponent = (props: {
+  onClick?: () => void;
+  ariaLabel?: string;
+  ariaPressed?: boolean;
+  children?: JSX.Element;
+}) => JSX.Element;
+
+type Props = {
+  class?: string;
+  itemClass?: string;
+  activeItemClass?: string;
+  minimizedItemClass?: string;
+  onlyMinimized?: boolean;
+  ariaLabel?: string;
+  renderItem?: (window: ModalWindow) => JSX.Element;
+  customButton?: ButtonComponent;
+};
+
+/**
+ * A taskbar that lists the windows registered in the surrounding `ModalManagerProvider`.
+ *
+ * Clicking a minimized window restores and raises it, clicking the active window minimizes it, and clicking any other
+ * window raises it.
+ *
+ * @param props - The component properties.
+ * @param props.class - The class name for the taskbar container.
+ * @param props.itemClass - The class name for each taskbar item.
+ * @param props.activeItemClass - The class name added to the item of the active window.
+ * @param props.minimizedItemClass - The class name added to the items of minimized windows.
+ * @param props.onlyMinimized - Whether to list only the minimized windows.
+ * @param props.ariaLabel - The aria label for the taskbar.
+ * @param props.renderItem - The function that renders the content of each item. Defaults to the window title.
+ * @param props.customButton - The custom button component.
+ */
+export default function ModalTaskbar(props: Props) {
+  const modalManager = useModalManager();
+
+  const windows = () =>
+    props.onlyMinimized ? modalManager.windows().filter((w) => w.isMinimized) : modalManager.windows();
+
+  function onItemClick(window: ModalWindow) {
+    if (window.isMinimized) modalManager.focus(window.id);
+    else if (modalManager.isActive(window.id) && window.minimize) window.minimize();
+    else modalManager.focus(window.id);
+  }
+
+  return (
+    <nav class={mergeCls("flex items-center gap-1", props.class)} aria-label={props.ariaLabel}>
+      <For each={windows()}>
+        {(window) => (
+          <Show
+            when={props.customButton}
+            fallback={
+              <button
+                type="button"
+                onClick={() => onItemClick(window)}
+                class={mergeCls(
+                  "max-w-48 truncate rounded px-2 py-1 text-sm transition-colors duration-200 ease-in-out hover:bg-gray-100",
+                  props.itemClass,
+                  modalManager.isActive(window.id) ? props.activeItemClass : undefined,
+                  window.isMinimized ? props.minimizedItemClass : undefined,
+                )}
+                aria-pressed={modalManager.isActive(window.id)}
+              >
+                {props.renderItem ? props.renderItem(window) : window.title}
+              </button>
+            }
+          >
+            {props.customButton && (
+              <props.customButton
+                onClick={() => onItemClick(window)}
+                ariaLabel={window.title}
+                ariaPressed={modalManager.isActive(window.id)}
+              >
+                {props.renderItem ? props.renderItem(window) : window.title}
+              </props.customButton>
+            )}
+          </Show>
+        )}
+      </For>
+    </nav>
+  );
+}
@@ -1,6 +1,6 @@
 import { createEffect, createMemo, createSignal, onCleanup, onMount } from "solid-js";
 import SvgIcon from "./SvgIcon";
-import IconSvgs from "../constants/IconSvgs";
+import { center as centerSvg } from "../constants/IconSvgs";
 
 export type Node = {
   id: string;
@@ -773,7 +773,7 @@ export default function NetworkGraph(props: Props) {
         title={centerButtonTitle}
         class="absolute right-8 top-8 z-20 flex size-8 items-center justify-center rounded-lg"
       >
-        <SvgIcon svg={IconSvgs.center} alt="Center graph" class="size-6" />
+        <SvgIcon svg={centerSvg} alt="Center graph" class="size-6" />
       </button>
     );
   }
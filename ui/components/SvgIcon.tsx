@@ -1,79 +1,202 @@
 import { mergeCls } from "acore-ts/ui/ClassHelpers";
-import { createMemo } from "solid-js";
+import { createEffect, createMemo, onCleanup, Show, useContext } from "solid-js";
+import { IconRegistryContext } from "../../providers/IconRegistryProvider";
+import SvgHelper from "../helpers/SvgHelper";
+
+export type IconSize = "xs" | "sm" | "md" | "lg" | "xl";
+
+export type IconAnimation = "spin" | "pulse" | "bounce" | "draw";
 
 type Props = {
-  svg: string;
+  svg?: string;
+  name?: string;
   alt: string;
   isSpin?: boolean;
+  animation?: IconAnimation;
   onClick?: () => void;
   class?: string;
   fillColor?: string;
   preserveFill?: boolean;
+  primaryColor?: string;
+  secondaryColor?: string;
+  secondaryOpacity?: number;
+  size?: IconSize | number;
+  rotate?: number;
+  flip?: "horizontal" | "vertical" | "both";
   style?: Record<string, string>;
 };
 
+const SIZE_PRESETS: Record<IconSize, number> = {
+  xs: 12,
+  sm: 16,
+  md: 20,
+  lg: 24,
+  xl: 32,
+};
+
+// Animations through Tailwind utilities, only applied when the user has not asked for reduced motion
+const ANIMATION_CLASSES: Record<Exclude<IconAnimation, "draw">, string> = {
+  spin: "motion-safe:animate-spin",
+  pulse: "motion-safe:animate-pulse",
+  bounce: "motion-safe:animate-bounce",
+};
+
+const FLIP_SCALES: Record<NonNullable<Props["flip"]>, string> = {
+  horizontal: "-1 1",
+  vertical: "1 -1",
+  both: "-1 -1",
+};
+
+const DRAW_DURATION = 1000;
+const DRAWABLE_SELECTOR = "path, line, polyline, polygon, circle, ellipse, rect";
+
 /**
  * A component that renders an SVG icon.
  *
+ * Icons are given either as markup through `svg`, or by name through `name` from the surrounding
+ * `IconRegistryProvider`, which loads icon packs on demand. In sprite mode, named icons are rendered with `<use>`
+ * referencing the provider's sprite sheet. Fills set inside a sprite icon are kept, and `fillColor` applies to the
+ * parts without their own fill.
+ *
+ * The markup is parsed rather than injected as is: scripts, event handlers, and references to external resources are
+ * removed, and the content is rendered directly into the icon element, which takes over the `viewBox` and presentation
+ * attributes of the original root `<svg>`.
+ *
+ * Duotone icons mark their layers with `data-layer="primary"` or `data-layer="secondary"`, or a `primary` or
+ * `secondary` class, which `primaryColor` and `secondaryColor` then color. Animations are skipped when the user prefers
+ * reduced motion, except for `isSpin`.
+ *
  * @param props - The component properties.
  * @param props.svg - The SVG content to render.
+ * @param props.name - The name of a registered icon to render, used when `svg` is not given.
  * @param props.alt - The alt text for the SVG.
- * @param props.isSpin - Whether the icon should spin.
+ * @param props.isSpin - Whether the icon should spin, as a loading indicator. Unlike the `spin` animation, it also
+ *   spins when the user prefers reduced motion.
+ * @param props.animation - The animation of the icon. `draw` draws the strokes of the icon in, so it needs an icon
+ *   drawn with strokes rather than fills, and only applies to icons rendered from markup rather than from a sprite
+ *   sheet.
  * @param props.onClick - The click event handler.
  * @param props.class - The class name for the SVG element.
- * @param props.fillColor - The fill color for the SVG.
- * @param props.preserveFill - If true, preserves original SVG fill colors instead of replacing with currentColor.
+ * @param props.fillColor - The color replacing `currentColor` in fills, strokes, and gradient stops. Other hardcoded
+ *   colors, like brand colors, are kept.
+ * @param props.preserveFill - If true, preserves original SVG colors instead of replacing them with currentColor.
+ * @param props.primaryColor - The color of the primary layer of a duotone icon. Defaults to `fillColor`.
+ * @param props.secondaryColor - The color of the secondary layer of a duotone icon. Defaults to `fillColor`.
+ * @param props.secondaryOpacity - The opacity of the secondary layer of a duotone icon.
+ * @param props.size - The width and height of the icon, as a preset or in pixels.
+ * @param props.rotate - The rotation of the icon in degrees.
+ * @param props.flip - The axis to mirror the icon along.
+ * @param props.style - The inline styles for the SVG element.
  */
 export default function SvgIcon(props: Props) {
-  const processedSvg = createMemo(() => {
-    if (!props.svg) {
-      //eslint-disable-next-line no-console
-      console.warn(`SvgIcon: svg prop is undefined for alt="${props.alt}"`);
-      return "";
-    }
+  const iconRegistry = useContext(IconRegistryContext);
+
+  const symbolId = () =>
+    !props.svg && props.name && iconRegistry?.isSpriteMode() ? iconRegistry.getSymbolId(props.name) : undefined;
+
+  const svg = () => props.svg ?? (props.name ? iconRegistry?.getIcon(props.name) : undefined);
 
-    // If preserveFill is true, return the SVG as-is without modifying fills
-    if (props.preserveFill) {
-      return props.svg;
+  const parsedSvg = createMemo(() => {
+    const svgContent = svg();
+    if (!svgContent) {
+      // Named icons of a pack are undefined until the pack loads, and the registry warns about unknown names
+      if (!props.name)
+        //eslint-disable-next-line no-console
+        console.warn(`SvgIcon: svg prop is undefined for alt="${props.alt}"`);
+      else if (!iconRegistry)
+        //eslint-disable-next-line no-console
+        console.warn(`SvgIcon: icon "${props.name}" used outside of IconRegistryProvider for alt="${props.alt}"`);
+      return undefined;
     }
 
-    // If fillColor is provided, replace "currentColor" with the provided color
-    // but preserve other hardcoded fills (like brand colors)
-    if (props.fillColor) {
-      let cleaned = props.svg.replace(/fill="currentColor"/g, `fill="${props.fillColor}"`);
+    return SvgHelper.parse(svgContent, { fillColor: props.fillColor, preserveFill: props.preserveFill });
+  });
 
-      // Add fill to root svg if it doesn't have one
-      if (!cleaned.match(/<svg[^>]*fill=/)) {
-        cleaned = cleaned.replace("<svg", `<svg fill="${props.fillColor}"`);
-      }
+  const animationClass = () => {
+    // `isSpin` keeps spinning under reduced motion, as loading indicators convey state rather than decorate
+    if (!props.animation) return props.isSpin ? "animate-spin" : undefined;
+    return props.animation === "draw" ? undefined : ANIMATION_CLASSES[props.animation];
+  };
 
-      return cleaned;
-    }
+  const className = () => mergeCls("select-none", props.class, animationClass());
 
-    // Default behavior: Remove all hardcoded fills except "none" and use currentColor
-    let cleaned = props.svg.replace(/fill="(?!none|currentColor).*?"/g, "");
+  const style = () => {
+    const size = typeof props.size === "string" ? SIZE_PRESETS[props.size] : props.size;
+    const primaryColor = props.primaryColor ?? props.fillColor;
+    const secondaryColor = props.secondaryColor ?? props.fillColor;
 
-    if (cleaned.startsWith("<svg")) {
-      cleaned = cleaned.replace("<svg", `<svg fill="currentColor"`);
+    // Individual transform properties, so they combine with the transforms of the animations
+    return {
+      ...(size !== undefined && { width: `${size}px`, height: `${size}px` }),
+      ...(props.rotate && { rotate: `${props.rotate}deg` }),
+      ...(props.flip && { scale: FLIP_SCALES[props.flip] }),
+      ...(primaryColor && { "--ac-icon-primary": primaryColor }),
+      ...(secondaryColor && { "--ac-icon-secondary": secondaryColor }),
+      ...(props.secondaryOpacity !== undefined && { "--ac-icon-secondary-opacity": String(props.secondaryOpacity) }),
+      ...props.style,
+    };
+  };
+
+  let svgElement: SVGSVGElement | undefined;
+
+  createEffect(() => {
+    parsedSvg();
+    if (props.animation !== "draw" || !svgElement || window.matchMedia("(prefers-reduced-motion: reduce)").matches)
+      return;
+
+    // Dashes only apply to strokes, fill-only shapes have nothing to draw
+    const strokedElements = Array.from(svgElement.querySelectorAll<SVGGeometryElement>(DRAWABLE_SELECTOR)).filter(
+      (element) => getComputedStyle(element).stroke !== "none",
+    );
+    if (!strokedElements.length) {
+      //eslint-disable-next-line no-console
+      console.warn(`SvgIcon: the draw animation needs an icon with strokes, none found for alt="${props.alt}"`);
+      return;
     }
 
-    return cleaned;
+    const animations = strokedElements.map((element) => {
+      // Measure every stroke as 1, so a single dash can cover it
+      element.setAttribute("pathLength", "1");
+      return element.animate(
+        [
+          { strokeDasharray: "1", strokeDashoffset: "1" },
+          { strokeDasharray: "1", strokeDashoffset: "0" },
+        ],
+        { duration: DRAW_DURATION, easing: "ease-in-out" },
+      );
+    });
+    onCleanup(() => animations.forEach((animation) => animation.cancel()));
   });
 
-  if (!props.svg) {
-    return null;
-  }
-
   return (
-    <svg
-      onClick={props.onClick}
-      innerHTML={processedSvg()}
-      class={mergeCls("select-none", props.class, {
-        "animate-spin": props.isSpin ?? false,
-      })}
-      style={props.style}
-      role="img"
-      aria-label={props.alt}
-    />
+    <Show
+      when={symbolId()}
+      fallback={
+        <Show when={parsedSvg()}>
+          <svg
+            ref={svgElement}
+            onClick={props.onClick}
+            viewBox={parsedSvg()!.viewBox}
+            {...parsedSvg()!.attributes}
+            innerHTML={parsedSvg()!.content}
+            class={className()}
+            style={style()}
+            role="img"
+            aria-label={props.alt}
+          />
+        </Show>
+      }
+    >
+      <svg
+        onClick={props.onClick}
+        fill={props.fillColor ?? "currentColor"}
+        class={className()}
+        style={style()}
+        role="img"
+        aria-label={props.alt}
+      >
+        <use href={`#${symbolId()}`} />
+      </svg>
+    </Show>
   );
 }
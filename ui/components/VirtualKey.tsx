@@ -0,0 +1,276 @@
+import { mergeCls } from "acore-ts/ui/ClassHelpers";
+import {
+  createEffect,
+  createMemo,
+  createRoot,
+  createSignal,
+  on,
+  onCleanup,
+  onMount,
+  untrack,
+  type Accessor,
+  type JSX,
+} from "solid-js";
+import type { KeyableType, NodeEntry } from "./Key";
+
+// Nodes are rendered into their own measured wrapper element
+type VirtualNodeEntry<TItem> = Omit<NodeEntry<TItem>, "result"> & { element: HTMLDivElement };
+
+export type ScrollAlignment = "start" | "center" | "end";
+
+export type VirtualKeyHandle<TKey extends KeyableType> = {
+  scrollToIndex: (index: number, align?: ScrollAlignment) => void;
+  scrollToKey: (key: TKey, align?: ScrollAlignment) => void;
+};
+
+type VirtualKeyProps<TItem, TKey extends KeyableType> = {
+  each?: TItem[];
+  by: (item: TItem) => TKey;
+  children: (item: Accessor<TItem>, index: Accessor<number>) => JSX.Element;
+  estimatedItemHeight?: number;
+  overscan?: number;
+  cacheSize?: number;
+  class?: string;
+  ref?: (handle: VirtualKeyHandle<TKey>) => void;
+};
+
+const DEFAULT_ESTIMATED_ITEM_HEIGHT = 40;
+const DEFAULT_OVERSCAN = 5;
+const DEFAULT_CACHE_SIZE = 50;
+
+/**
+ * A virtualized variant of `Key` that only mounts the items inside the scroll viewport, for lists of thousands of
+ * items.
+ *
+ * Items are keyed the same way as in `Key`, so a mounted item keeps its node while the list changes. Item heights are
+ * measured as items render, starting from an estimate, and the scroll position is kept steady when items above the
+ * viewport change height. Items scrolled out of view are kept alive in a cache of the most recently hidden keys, so
+ * their state survives scrolling back. The component renders its own scroll container, which needs a height.
+ *
+ * @example
+ *   <VirtualKey each={records()} by={(record) => record.id} class="h-96" ref={(handle) => (list = handle)}>
+ *     {(record) => <div>{record().name}</div>}
+ *   </VirtualKey>;
+ *
+ * @param props - The component properties.
+ * @param props.each - The list of items to map over.
+ * @param props.by - The function that returns the key for each item.
+ * @param props.children - The render function that receives the item and index.
+ * @param props.estimatedItemHeight - The height in pixels assumed for items that have not been measured yet. Defaults
+ *   to 40.
+ * @param props.overscan - The number of items mounted above and below the viewport. Defaults to 5.
+ * @param props.cacheSize - The number of hidden items kept alive for scrolling back. Defaults to 50.
+ * @param props.class - The class name for the scroll container.
+ * @param props.ref - Receives the handle for scrolling to an index or a key.
+ */
+export default function VirtualKey<TItem, TKey extends KeyableType>(props: VirtualKeyProps<TItem, TKey>): JSX.Element {
+  const [scrollTop, setScrollTop] = createSignal(0);
+  const [viewportHeight, setViewportHeight] = createSignal(0);
+  // Measured heights by key, kept while the key is in the list so items scrolled back into view do not jump
+  const heights = new Map<TKey, number>();
+  const [heightsVersion, setHeightsVersion] = createSignal(0);
+
+  let mountedEntries = new Map<TKey, VirtualNodeEntry<TItem>>();
+  // Hidden entries ordered from the least to the most recently hidden
+  const cachedEntries = new Map<TKey, VirtualNodeEntry<TItem>>();
+  const elementKeys = new WeakMap<Element, TKey>();
+
+  let containerElement: HTMLDivElement | undefined;
+
+  const estimatedItemHeight = () => props.estimatedItemHeight ?? DEFAULT_ESTIMATED_ITEM_HEIGHT;
+
+  const keys = createMemo(() => (props.each || []).map((item) => props.by(item)));
+  const keyIndices = createMemo(() => new Map(keys().map((key, index) => [key, index])));
+
+  createEffect(
+    on(keyIndices, (indices) => {
+      for (const key of heights.keys()) if (!indices.has(key)) heights.delete(key);
+    }),
+  );
+
+  // offsets[i] is the top of item i, and the last offset is the height of the whole list
+  const offsets = createMemo(() => {
+    heightsVersion();
+    const currentKeys = keys();
+    const result = new Float64Array(currentKeys.length + 1);
+    for (let i = 0; i < currentKeys.length; i++)
+      result[i + 1] = result[i] + (heights.get(currentKeys[i]) ?? estimatedItemHeight());
+
+    return result;
+  });
+
+  const range = createMemo(
+    () => {
+      const currentOffsets = offsets();
+      const count = currentOffsets.length - 1;
+      const overscan = props.overscan ?? DEFAULT_OVERSCAN;
+      const start = findIndexAtOffset(currentOffsets, scrollTop());
+      const end = findIndexAtOffset(currentOffsets, scrollTop() + viewportHeight()) + 1;
+
+      return { start: Math.max(0, start - overscan), end: Math.min(count, end + overscan) };
+    },
+    undefined,
+    { equals: (a, b) => a.start === b.start && a.end === b.end },
+  );
+
+  const resizeObserver = new ResizeObserver((entries) => {
+    let hasChanged = false;
+    let anchorDelta = 0;
+
+    for (const entry of entries) {
+      const key = elementKeys.get(entry.target);
+      if (key === undefined) continue;
+
+      const height = (entry.target as HTMLElement).offsetHeight;
+      const previousHeight = heights.get(key) ?? estimatedItemHeight();
+      if (height === previousHeight) continue;
+
+      heights.set(key, height);
+      hasChanged = true;
+
+      // Keep the visible items in place when an item above them changes height
+      const index = keyIndices().get(key);
+      if (index !== undefined && offsets()[index] < scrollTop()) anchorDelta += height - previousHeight;
+    }
+
+    if (!hasChanged) return;
+    setHeightsVersion((version) => version + 1);
+    if (anchorDelta && containerElement) containerElement.scrollTop += anchorDelta;
+  });
+
+  onCleanup(() => {
+    resizeObserver.disconnect();
+    for (const entry of mountedEntries.values()) entry.dispose();
+    for (const entry of cachedEntries.values()) entry.dispose();
+  });
+
+  onMount(() => {
+    const viewportObserver = new ResizeObserver(() => setViewportHeight(containerElement!.clientHeight));
+    viewportObserver.observe(containerElement!);
+    onCleanup(() => viewportObserver.disconnect());
+
+    props.ref?.({ scrollToIndex, scrollToKey });
+  });
+
+  const memoized = createMemo(() => {
+    const list = props.each || [];
+    const currentKeys = keys();
+    const { start, end } = range();
+
+    return untrack(() => {
+      const mapped: JSX.Element[] = [];
+      const newEntries = new Map<TKey, VirtualNodeEntry<TItem>>();
+
+      for (let i = start; i < end; i++) {
+        const keyValue = currentKeys[i];
+        let entry = mountedEntries.get(keyValue);
+
+        if (!entry && cachedEntries.has(keyValue)) {
+          entry = cachedEntries.get(keyValue)!;
+          cachedEntries.delete(keyValue);
+          resizeObserver.observe(entry.element);
+        }
+
+        if (entry) {
+          entry.index[1](i);
+          entry.item[1](list[i]);
+        } else entry = createEntry(keyValue, list[i], i);
+
+        newEntries.set(keyValue, entry);
+        mapped.push(entry.element);
+      }
+
+      // Keep the entries that scrolled out of view, and dispose of the ones that left the list
+      for (const [key, entry] of mountedEntries) {
+        if (newEntries.has(key)) continue;
+
+        if (keyIndices().has(key)) {
+          // Detached elements report a zero size, so stop measuring them while they are hidden
+          resizeObserver.unobserve(entry.element);
+          cachedEntries.set(key, entry);
+        } else entry.dispose();
+      }
+      for (const [key, entry] of cachedEntries) {
+        if (keyIndices().has(key)) continue;
+
+        entry.dispose();
+        cachedEntries.delete(key);
+      }
+      for (const [key, entry] of cachedEntries) {
+        if (cachedEntries.size <= (props.cacheSize ?? DEFAULT_CACHE_SIZE)) break;
+
+        entry.dispose();
+        cachedEntries.delete(key);
+      }
+
+      mountedEntries = newEntries;
+      return mapped;
+    });
+  });
+
+  function createEntry(keyValue: TKey, listItem: TItem, i: number) {
+    return createRoot((dispose) => {
+      const index = createSignal<number>(i);
+      const item = createSignal<TItem>(listItem);
+      const element = (
+        <div class="absolute inset-x-0" style={{ top: `${offsets()[index[0]()]}px` }} data-index={index[0]()}>
+          {props.children(item[0], index[0])}
+        </div>
+      ) as HTMLDivElement;
+
+      elementKeys.set(element, keyValue);
+      resizeObserver.observe(element);
+      onCleanup(() => resizeObserver.unobserve(element));
+
+      return { index, item, element, dispose };
+    });
+  }
+
+  function scrollToIndex(index: number, align: ScrollAlignment = "start") {
+    if (!containerElement) return;
+
+    const currentOffsets = offsets();
+    const count = currentOffsets.length - 1;
+    if (!count) return;
+
+    const clampedIndex = Math.max(0, Math.min(index, count - 1));
+
+    const top = currentOffsets[clampedIndex];
+    const height = currentOffsets[clampedIndex + 1] - top;
+    const viewport = containerElement.clientHeight;
+
+    containerElement.scrollTop =
+      align === "center" ? top - (viewport - height) / 2 : align === "end" ? top - viewport + height : top;
+  }
+
+  function scrollToKey(key: TKey, align?: ScrollAlignment) {
+    const index = keyIndices().get(key);
+    if (index !== undefined) scrollToIndex(index, align);
+  }
+
+  return (
+    <div
+      ref={containerElement}
+      class={mergeCls("relative overflow-auto", props.class)}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+    >
+      <div class="relative w-full" style={{ height: `${offsets().at(-1)}px` }}>
+        {memoized()}
+      </div>
+    </div>
+  );
+}
+
+/** Finds the index of the item at the given offset, by binary search over the item offsets. */
+function findIndexAtOffset(offsets: Float64Array, offset: number) {
+  let low = 0;
+  let high = offsets.length - 2;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+
+  return Math.max(low, 0);
+}
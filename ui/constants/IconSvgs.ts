@@ -1,16 +1,38 @@
-const IconSvgs = {
-  bold: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M8 11h4.5a2.5 2.5 0 0 0 0-5H8v5Zm10 4.5c0 2.5-2 4.5-4.5 4.5H6V4h6.5a4.5 4.5 0 0 1 3.3 7.6c1.3.8 2.2 2.2 2.2 3.9ZM8 13v5h5.5a2.5 2.5 0 0 0 0-5H8Z"/></svg>`,
-  center: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M3.5 11H11V3.5L7.96 6.54 4.7 3.3 3.29 4.71l3.25 3.25L3.5 11Zm17 2H13v7.5l3.04-3.04 3.25 3.25 1.42-1.42-3.25-3.25L20.5 13Z"/></svg>`,
-  close: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="m12 10.6 5-5 1.4 1.5-5 4.9 5 5-1.5 1.4-4.9-5-5 5L5.6 17l5-5-5-5L7 5.7l5 5Z"/></svg>`,
-  formatClear: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M12.65 14.07 11.6 20H9.57l1.35-7.66-7.4-7.41 1.4-1.42L20.5 19.07l-1.42 1.42-6.42-6.42Zm-.88-6.54L12.04 6h-1.8l-2-2H20v2h-5.93l-.57 3.26-1.73-1.73Z"/></svg>`,
-  heading1: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M13 20h-2v-7H4v7H2V4h2v7h7V4h2v16Zm8-12v12h-2v-9.8l-2 .5v-2l2.5-.7H21Z"/></svg>`,
-  heading2: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M4 4v7h7V4h2v16h-2v-7H4v7H2V4h2Zm14.5 4a3.7 3.7 0 0 1 3 6l-.2.2L18 18h4v2h-7v-1.6l4.8-5.5c.3-.3.4-.7.4-1.2a1.7 1.7 0 0 0-3.4 0h-2c0-2 1.6-3.7 3.7-3.7Z"/></svg>`,
-  italic: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M15 20H7v-2h3l2-12H9V4h8v2h-3l-2 12h3v2Z"/></svg>`,
-  link: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="m18.4 15.5-1.5-1.4 1.5-1.4a5 5 0 0 0-7.1-7L9.9 7 8.5 5.6l1.4-1.4a7 7 0 0 1 9.9 10l-1.4 1.3Zm-2.9 2.9-1.4 1.4a7 7 0 0 1-9.9-10l1.4-1.3 1.5 1.4-1.5 1.4a5 5 0 0 0 7.1 7l1.4-1.4 1.4 1.5Zm-.7-10.6 1.4 1.4-7 7-1.4-1.4 7-7Z"/></svg>`,
-  maximize: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="-3 -3 30 30"><path d="M4 3h16c.6 0 1 .4 1 1v16c0 .6-.4 1-1 1H4a1 1 0 0 1-1-1V4c0-.6.4-1 1-1Zm1 2v14h14V5H5Z"/></svg>`,
-  minus: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M5 11v2h14v-2H5Z"/></svg>`,
-  orderedList: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M8 4h13v2H8V4ZM5 3v3h1v1H3V6h1V4H3V3h2ZM3 14v-2.5h2V11H3v-1h3v2.5H4v.5h2v1H3Zm2 5.5H3v-1h2V18H3v-1h3v4H3v-1h2v-.5ZM8 11h13v2H8v-2Zm0 7h13v2H8v-2Z"/></svg>`,
-  underline: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M8 3v9a4 4 0 0 0 8 0V3h2v9a6 6 0 0 1-12 0V3h2ZM4 20h16v2H4v-2Z"/></svg>`,
-  unorderedList: `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M8 4h13v2H8V4ZM4.5 6.5a1.5 1.5 0 1 1 0-3 1.5 1.5 0 0 1 0 3Zm0 7a1.5 1.5 0 1 1 0-3 1.5 1.5 0 0 1 0 3Zm0 6.9a1.5 1.5 0 1 1 0-3 1.5 1.5 0 0 1 0 3ZM8 11h13v2H8v-2Zm0 7h13v2H8v-2Z"/></svg>`,
-};
-export default IconSvgs;
+/**
+ * The built-in icons, drawn on a 24x24 grid and filled with `currentColor`. Import icons by name, as in `import { close
+ * } from "../constants/IconSvgs"`, so bundlers only include the icons in use.
+ */
+
+export const bold = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M8 11h4.5a2.5 2.5 0 0 0 0-5H8v5Zm10 4.5c0 2.5-2 4.5-4.5 4.5H6V4h6.5a4.5 4.5 0 0 1 3.3 7.6c1.3.8 2.2 2.2 2.2 3.9ZM8 13v5h5.5a2.5 2.5 0 0 0 0-5H8Z"/></svg>`;
+export const center = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M3.5 11H11V3.5L7.96 6.54 4.7 3.3 3.29 4.71l3.25 3.25L3.5 11Zm17 2H13v7.5l3.04-3.04 3.25 3.25 1.42-1.42-3.25-3.25L20.5 13Z"/></svg>`;
+export const check = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="m10 15.17 9.2-9.2 1.42 1.42L10 18l-6.36-6.36 1.41-1.41L10 15.17Z"/></svg>`;
+export const checkDouble = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M1.4 12.4 2.8 11 8 16.2 17.2 7l1.4 1.4L8 19l-6.6-6.6Zm10.2 5.2 1.4-1.4 9.2-9.2 1.4 1.4L13 19l-1.4-1.4Z"/></svg>`;
+export const chevronDown = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="m12 13.17 4.95-4.95 1.41 1.41L12 16 5.64 9.64l1.41-1.42L12 13.17Z"/></svg>`;
+export const chevronLeft = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="m10.83 12 4.95 4.95-1.42 1.41L8 12l6.36-6.36 1.42 1.41L10.83 12Z"/></svg>`;
+export const chevronRight = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="m13.17 12-4.95-4.95 1.42-1.41L16 12l-6.36 6.36-1.42-1.41L13.17 12Z"/></svg>`;
+export const chevronUp = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="m12 10.83-4.95 4.95-1.41-1.42L12 8l6.36 6.36-1.41 1.42L12 10.83Z"/></svg>`;
+export const close = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="m12 10.6 5-5 1.4 1.5-5 4.9 5 5-1.5 1.4-4.9-5-5 5L5.6 17l5-5-5-5L7 5.7l5 5Z"/></svg>`;
+export const code = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="m23 12-7.07 7.07-1.42-1.41L20.17 12l-5.66-5.66 1.42-1.41L23 12ZM3.83 12l5.66 5.66-1.42 1.41L1 12l7.07-7.07 1.42 1.41L3.83 12Z"/></svg>`;
+export const formatClear = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M12.65 14.07 11.6 20H9.57l1.35-7.66-7.4-7.41 1.4-1.42L20.5 19.07l-1.42 1.42-6.42-6.42Zm-.88-6.54L12.04 6h-1.8l-2-2H20v2h-5.93l-.57 3.26-1.73-1.73Z"/></svg>`;
+export const fullscreen = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M20 3h2v6h-2V5h-4V3h4ZM4 3h4v2H4v4H2V3h2Zm16 16v-4h2v6h-6v-2h4ZM4 19h4v2H2v-6h2v4Z"/></svg>`;
+export const fullscreenExit = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M18 7h4v2h-6V3h2v4ZM8 9H2V7h4V3h2v6Zm10 8v4h-2v-6h6v2h-4ZM8 15v6H6v-4H2v-2h6Z"/></svg>`;
+export const heading1 = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M13 20h-2v-7H4v7H2V4h2v7h7V4h2v16Zm8-12v12h-2v-9.8l-2 .5v-2l2.5-.7H21Z"/></svg>`;
+export const heading2 = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M4 4v7h7V4h2v16h-2v-7H4v7H2V4h2Zm14.5 4a3.7 3.7 0 0 1 3 6l-.2.2L18 18h4v2h-7v-1.6l4.8-5.5c.3-.3.4-.7.4-1.2a1.7 1.7 0 0 0-3.4 0h-2c0-2 1.6-3.7 3.7-3.7Z"/></svg>`;
+export const image = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M2.9 21a.9.9 0 0 1-.9-.9V3.9c0-.5.4-.9.9-.9h18.2c.5 0 .9.4.9.9v16.2c0 .5-.4.9-.9.9H2.9ZM20 15V5H4v14L14 9l6 6Zm0 2.8-6-6L6.8 19H20v-1.2ZM8 11a2 2 0 1 1 0-4 2 2 0 0 1 0 4Z"/></svg>`;
+export const italic = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M15 20H7v-2h3l2-12H9V4h8v2h-3l-2 12h3v2Z"/></svg>`;
+export const link = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="m18.4 15.5-1.5-1.4 1.5-1.4a5 5 0 0 0-7.1-7L9.9 7 8.5 5.6l1.4-1.4a7 7 0 0 1 9.9 10l-1.4 1.3Zm-2.9 2.9-1.4 1.4a7 7 0 0 1-9.9-10l1.4-1.3 1.5 1.4-1.5 1.4a5 5 0 0 0 7.1 7l1.4-1.4 1.4 1.5Zm-.7-10.6 1.4 1.4-7 7-1.4-1.4 7-7Z"/></svg>`;
+export const maximize = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h12c.6 0 1 .4 1 1v12c0 .6-.4 1-1 1H6a1 1 0 0 1-1-1V6c0-.6.4-1 1-1Zm1 2v10h10V7H7Z"/></svg>`;
+export const minimize = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M5 17h14v2H5v-2Z"/></svg>`;
+export const minus = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M5 11v2h14v-2H5Z"/></svg>`;
+export const orderedList = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M8 4h13v2H8V4ZM5 3v3h1v1H3V6h1V4H3V3h2ZM3 14v-2.5h2V11H3v-1h3v2.5H4v.5h2v1H3Zm2 5.5H3v-1h2V18H3v-1h3v4H3v-1h2v-.5ZM8 11h13v2H8v-2Zm0 7h13v2H8v-2Z"/></svg>`;
+export const quote = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M4.58 17.32C3.55 16.23 3 15 3 13.01c0-3.5 2.46-6.64 6.03-8.19l.9 1.38c-3.34 1.8-4 4.15-4.25 5.62.54-.28 1.24-.38 1.93-.31 1.8.17 3.23 1.65 3.23 3.49a3.5 3.5 0 0 1-3.5 3.5c-1.07 0-2.1-.49-2.76-1.18Zm10 0C13.55 16.23 13 15 13 13.01c0-3.5 2.46-6.64 6.03-8.19l.9 1.38c-3.34 1.8-4 4.15-4.25 5.62.54-.28 1.24-.38 1.93-.31 1.8.17 3.23 1.65 3.23 3.49a3.5 3.5 0 0 1-3.5 3.5c-1.07 0-2.1-.49-2.76-1.18Z"/></svg>`;
+export const redo = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M18.17 7H11a7 7 0 1 0 0 14h9v-2h-9a5 5 0 1 1 0-10h7.17l-2.58 2.59L17 13l5-5-5-5-1.41 1.41L18.17 7Z"/></svg>`;
+export const restore = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M7 7V4c0-.6.4-1 1-1h12c.6 0 1 .4 1 1v12c0 .6-.4 1-1 1h-3v3c0 .6-.4 1-1 1H4a1 1 0 0 1-1-1V8c0-.6.4-1 1-1h3Zm2 0h7c.6 0 1 .4 1 1v7h2V5H9v2ZM5 9v10h10V9H5Z"/></svg>`;
+export const search = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M11 2a9 9 0 0 1 7.03 14.62l4.28 4.27-1.42 1.42-4.27-4.28A9 9 0 1 1 11 2Zm0 2a7 7 0 1 0 0 14 7 7 0 0 0 0-14Z"/></svg>`;
+export const strikethrough = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M7 7.5C7 5 9.2 3 12 3s5 2 5 4.5h-2C15 6.1 13.7 5 12 5S9 6.1 9 7.5c0 .9.5 1.7 1.5 2.5H7.7A4.1 4.1 0 0 1 7 7.5ZM3 11h18v2H3v-2Zm12.9 3c.7.7 1.1 1.5 1.1 2.5 0 2.5-2.2 4.5-5 4.5s-5-2-5-4.5h2c0 1.4 1.3 2.5 3 2.5s3-1.1 3-2.5c0-1-.6-1.8-2-2.5h2.9Z"/></svg>`;
+export const table = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M4 8h16V5H4v3Zm10 11v-9h-4v9h4Zm2 0h4v-9h-4v9Zm-8 0v-9H4v9h4ZM3 3h18c.6 0 1 .4 1 1v16c0 .6-.4 1-1 1H3a1 1 0 0 1-1-1V4c0-.6.4-1 1-1Z"/></svg>`;
+export const underline = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M8 3v9a4 4 0 0 0 8 0V3h2v9a6 6 0 0 1-12 0V3h2ZM4 20h16v2H4v-2Z"/></svg>`;
+export const undo = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M5.83 7H13a7 7 0 1 1 0 14H4v-2h9a5 5 0 1 0 0-10H5.83l2.58 2.59L7 13 2 8l5-5 1.41 1.41L5.83 7Z"/></svg>`;
+export const unorderedList = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M8 4h13v2H8V4ZM4.5 6.5a1.5 1.5 0 1 1 0-3 1.5 1.5 0 0 1 0 3Zm0 7a1.5 1.5 0 1 1 0-3 1.5 1.5 0 0 1 0 3Zm0 6.9a1.5 1.5 0 1 1 0-3 1.5 1.5 0 0 1 0 3ZM8 11h13v2H8v-2Zm0 7h13v2H8v-2Z"/></svg>`;
+export const zoomIn = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M11 2a9 9 0 0 1 7.03 14.62l4.28 4.27-1.42 1.42-4.27-4.28A9 9 0 1 1 11 2Zm0 2a7 7 0 1 0 0 14 7 7 0 0 0 0-14ZM10 7h2v3h3v2h-3v3h-2v-3H7v-2h3V7Z"/></svg>`;
+export const zoomOut = `<svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M11 2a9 9 0 0 1 7.03 14.62l4.28 4.27-1.42 1.42-4.27-4.28A9 9 0 1 1 11 2Zm0 2a7 7 0 1 0 0 14 7 7 0 0 0 0-14ZM7 10h8v2H7v-2Z"/></svg>`;
@@ -0,0 +1,52 @@
+export type DismissableLayer = {
+  /** The elements that belong to the layer. Clicks inside any of them do not dismiss it. */
+  elements: () => (Element | null | undefined)[];
+  /** Called when a click outside of the layer dismisses it. */
+  onDismiss: (event: MouseEvent) => void;
+};
+
+/**
+ * Dismisses floating layers such as menus and popovers on clicks outside of them, through a single document listener
+ * shared by all layers.
+ *
+ * Layers are kept in a stack in the order they opened. A click dismisses the layers from the top of the stack down to
+ * the first layer containing the click, so a click inside a parent menu closes only the menus nested above it, and a
+ * click on a sibling closes every open layer.
+ */
+export default class DismissableLayerHelper {
+  private static layers: DismissableLayer[] = [];
+
+  /**
+   * Pushes a layer on top of the stack.
+   *
+   * @param layer - The layer to push.
+   * @returns A function that removes the layer from the stack.
+   */
+  static push(layer: DismissableLayer) {
+    if (DismissableLayerHelper.layers.length === 0)
+      // Listen in the capture phase, so layers are dismissed before the clicked element opens a new one
+      document.addEventListener("click", DismissableLayerHelper.onDocumentClick, true);
+    DismissableLayerHelper.layers.push(layer);
+
+    return () => DismissableLayerHelper.remove(layer);
+  }
+
+  private static remove(layer: DismissableLayer) {
+    const layers = DismissableLayerHelper.layers;
+    const index = layers.indexOf(layer);
+    if (index === -1) return;
+
+    layers.splice(index, 1);
+    if (layers.length === 0) document.removeEventListener("click", DismissableLayerHelper.onDocumentClick, true);
+  }
+
+  private static onDocumentClick(event: MouseEvent) {
+    const target = event.target as Node | null;
+
+    // Copy first, dismissing a layer removes it from the stack
+    for (const layer of [...DismissableLayerHelper.layers].reverse()) {
+      if (target && layer.elements().some((element) => element?.contains(target))) return;
+      layer.onDismiss(event);
+    }
+  }
+}
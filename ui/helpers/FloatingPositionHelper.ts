@@ -0,0 +1,165 @@
+export type Side = "top" | "right" | "bottom" | "left";
+
+export type Alignment = "start" | "end";
+
+export type Placement = Side | `${Side}-${Alignment}`;
+
+export type FloatingPositionOptions = {
+  /** The preferred placement of the floating element. Defaults to `bottom-start`. */
+  placement?: Placement;
+  /** The distance in pixels between the reference and the floating element. Defaults to 0. */
+  offset?: number;
+  /** The minimum distance in pixels kept from the viewport edges. Defaults to 8. */
+  padding?: number;
+  /** Whether to move to the opposite side when the preferred side does not fit. Defaults to true. */
+  flip?: boolean;
+  /** Whether to shift along the reference to stay inside the viewport. Defaults to true. */
+  shift?: boolean;
+};
+
+export type FloatingPosition = {
+  top: number;
+  left: number;
+  placement: Placement;
+};
+
+type Rect = { top: number; left: number; width: number; height: number };
+
+/** An element, or anything that can tell its rectangle such as a point under the pointer. */
+export type FloatingReference = Element | { getBoundingClientRect: () => Rect };
+
+const DEFAULT_PADDING = 8;
+
+const OPPOSITE_SIDES: Record<Side, Side> = {
+  top: "bottom",
+  right: "left",
+  bottom: "top",
+  left: "right",
+};
+
+/** Positions floating elements such as menus and tooltips next to a reference element, in viewport coordinates. */
+export default class FloatingPositionHelper {
+  /**
+   * Computes the position of a floating element, flipping and shifting it to keep it inside the viewport.
+   *
+   * @param reference - The rectangle of the reference element.
+   * @param floating - The size of the floating element.
+   * @param options - The positioning options.
+   * @returns The position for a `position: fixed` floating element, and the placement that was used.
+   */
+  static computePosition(
+    reference: Rect,
+    floating: { width: number; height: number },
+    options: FloatingPositionOptions = {},
+  ): FloatingPosition {
+    const offset = options.offset ?? 0;
+    const padding = options.padding ?? DEFAULT_PADDING;
+    let placement = options.placement ?? "bottom-start";
+    let coords = getCoords(reference, floating, placement, offset);
+
+    if ((options.flip ?? true) && overflowsSide(coords, floating, getSide(placement), padding)) {
+      const [side, alignment] = splitPlacement(placement);
+      const flippedPlacement: Placement = alignment ? `${OPPOSITE_SIDES[side]}-${alignment}` : OPPOSITE_SIDES[side];
+      const flippedCoords = getCoords(reference, floating, flippedPlacement, offset);
+
+      if (!overflowsSide(flippedCoords, floating, OPPOSITE_SIDES[side], padding)) {
+        placement = flippedPlacement;
+        coords = flippedCoords;
+      }
+    }
+
+    if (options.shift ?? true) {
+      const side = getSide(placement);
+      if (side === "top" || side === "bottom")
+        coords.left = clamp(coords.left, padding, window.innerWidth - floating.width - padding);
+      else coords.top = clamp(coords.top, padding, window.innerHeight - floating.height - padding);
+    }
+
+    return { ...coords, placement };
+  }
+
+  /**
+   * Calls the update function whenever the reference or the floating element may have moved, that is on scroll in any
+   * ancestor, on window resize, and when either element is resized.
+   *
+   * @param reference - The reference element. Only element references are observed for resizing.
+   * @param floating - The floating element.
+   * @param update - The function that repositions the floating element.
+   * @returns A function that stops the updates.
+   */
+  static autoUpdate(reference: FloatingReference, floating: Element, update: () => void) {
+    const resizeObserver = new ResizeObserver(update);
+    if (reference instanceof Element) resizeObserver.observe(reference);
+    resizeObserver.observe(floating);
+    window.addEventListener("scroll", update, { capture: true, passive: true });
+    window.addEventListener("resize", update);
+
+    return () => {
+      resizeObserver.disconnect();
+      window.removeEventListener("scroll", update, { capture: true });
+      window.removeEventListener("resize", update);
+    };
+  }
+}
+
+function splitPlacement(placement: Placement) {
+  return placement.split("-") as [Side, Alignment | undefined];
+}
+
+function getSide(placement: Placement) {
+  return splitPlacement(placement)[0];
+}
+
+function getCoords(
+  reference: Rect,
+  floating: { width: number; height: number },
+  placement: Placement,
+  offset: number,
+): { top: number; left: number } {
+  const [side, alignment] = splitPlacement(placement);
+
+  if (side === "top" || side === "bottom") {
+    const top =
+      side === "bottom" ? reference.top + reference.height + offset : reference.top - floating.height - offset;
+    const left =
+      alignment === "start"
+        ? reference.left
+        : alignment === "end"
+          ? reference.left + reference.width - floating.width
+          : reference.left + reference.width / 2 - floating.width / 2;
+
+    return { top, left };
+  }
+
+  const left = side === "right" ? reference.left + reference.width + offset : reference.left - floating.width - offset;
+  const top =
+    alignment === "start"
+      ? reference.top
+      : alignment === "end"
+        ? reference.top + reference.height - floating.height
+        : reference.top + reference.height / 2 - floating.height / 2;
+
+  return { top, left };
+}
+
+function overflowsSide(
+  coords: { top: number; left: number },
+  floating: { width: number; height: number },
+  side: Side,
+  padding: number,
+) {
+  switch (side) {
+    case "top":
+      return coords.top < padding;
+    case "bottom":
+      return coords.top + floating.height > window.innerHeight - padding;
+    case "left":
+      return coords.left < padding;
+    case "right":
+      return coords.left + floating.width > window.innerWidth - padding;
+  }
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(value, Math.max(min, max)));
+}
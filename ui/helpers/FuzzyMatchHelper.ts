@@ -0,0 +1,78 @@
+export type FuzzyMatch = {
+  /** The higher the better. Only comparable between matches of the same query. */
+  score: number;
+  /** The indices of the matched characters in the text. */
+  indices: number[];
+};
+
+export type HighlightSegment = { text: string; isMatch: boolean };
+
+const MATCH_SCORE = 1;
+const CONSECUTIVE_BONUS = 5;
+const WORD_START_BONUS = 3;
+const LEADING_GAP_PENALTY = 0.1;
+
+/** Matches queries against texts the way command palettes and quick pickers do, by characters in order. */
+export default class FuzzyMatchHelper {
+  /**
+   * Matches the query against the text, ignoring case. Every query character must appear in the text in order, and
+   * consecutive characters and characters at word starts score higher.
+   *
+   * @param query - The query to match.
+   * @param text - The text to match against.
+   * @returns The match, or null if the text does not contain the query characters in order.
+   */
+  static match(query: string, text: string): FuzzyMatch | null {
+    const normalizedQuery = query.toLowerCase().replace(/\s+/g, "");
+    const normalizedText = text.toLowerCase();
+    if (!normalizedQuery) return { score: 0, indices: [] };
+
+    const indices: number[] = [];
+    let score = 0;
+    let queryIndex = 0;
+
+    for (let textIndex = 0; textIndex < normalizedText.length && queryIndex < normalizedQuery.length; ++textIndex) {
+      if (normalizedText[textIndex] !== normalizedQuery[queryIndex]) continue;
+
+      score += MATCH_SCORE;
+      if (indices.at(-1) === textIndex - 1) score += CONSECUTIVE_BONUS;
+      if (isWordStart(text, textIndex)) score += WORD_START_BONUS;
+
+      indices.push(textIndex);
+      ++queryIndex;
+    }
+
+    if (queryIndex < normalizedQuery.length) return null;
+
+    return { score: score - indices[0] * LEADING_GAP_PENALTY, indices };
+  }
+
+  /**
+   * Splits the text into matched and unmatched segments for highlighting.
+   *
+   * @param text - The matched text.
+   * @param indices - The indices of the matched characters.
+   */
+  static highlight(text: string, indices: number[]): HighlightSegment[] {
+    const matchedIndices = new Set(indices);
+    const segments: HighlightSegment[] = [];
+
+    for (let index = 0; index < text.length; ++index) {
+      const isMatch = matchedIndices.has(index);
+      const lastSegment = segments.at(-1);
+
+      if (lastSegment?.isMatch === isMatch) lastSegment.text += text[index];
+      else segments.push({ text: text[index], isMatch });
+    }
+
+    return segments;
+  }
+}
+
+function isWordStart(text: string, index: number) {
+  if (index === 0) return true;
+
+  const previous = text[index - 1];
+  const current = text[index];
+  return /[\s\-_./]/.test(previous) || (previous === previous.toLowerCase() && current !== current.toLowerCase());
+}
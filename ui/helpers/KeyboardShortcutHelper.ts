@@ -0,0 +1,119 @@
+export type ShortcutModifiers = { ctrl: boolean; meta: boolean; alt: boolean; shift: boolean };
+
+export type ParsedShortcut = {
+  /** The lowercase key pressed with the modifiers, such as `k`. */
+  key: string;
+  modifiers: ShortcutModifiers;
+};
+
+const APPLE_SHORTCUT_GLYPHS: Record<string, string> = {
+  mod: "⌘",
+  meta: "⌘",
+  cmd: "⌘",
+  ctrl: "⌃",
+  control: "⌃",
+  alt: "⌥",
+  option: "⌥",
+  shift: "⇧",
+  enter: "↩",
+  backspace: "⌫",
+  delete: "⌦",
+  escape: "⎋",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+};
+
+const SHORTCUT_KEY_NAMES: Record<string, string> = {
+  mod: "Ctrl",
+  meta: "Win",
+  cmd: "Win",
+  control: "Ctrl",
+  option: "Alt",
+  escape: "Esc",
+};
+
+/**
+ * Handles keyboard shortcuts written as keys joined by `+`, such as `Mod+Shift+K`. `Mod` stands for Command on Apple
+ * platforms and Control elsewhere.
+ */
+export default class KeyboardShortcutHelper {
+  static isApplePlatform() {
+    return /Mac|iPhone|iPad|iPod/.test(navigator.platform);
+  }
+
+  /**
+   * Parses a shortcut into its key and the modifiers it needs on the current platform.
+   *
+   * @param shortcut - The shortcut, such as `Mod+Shift+K`.
+   * @returns The parsed shortcut.
+   */
+  static parse(shortcut: string): ParsedShortcut {
+    const keys = shortcut.toLowerCase().split("+");
+    const modifiers = new Set(keys.slice(0, -1));
+    const isApplePlatform = KeyboardShortcutHelper.isApplePlatform();
+
+    return {
+      key: keys.at(-1) ?? "",
+      modifiers: {
+        ctrl: modifiers.has("ctrl") || modifiers.has("control") || (modifiers.has("mod") && !isApplePlatform),
+        meta: modifiers.has("meta") || modifiers.has("cmd") || (modifiers.has("mod") && isApplePlatform),
+        alt: modifiers.has("alt") || modifiers.has("option"),
+        shift: modifiers.has("shift"),
+      },
+    };
+  }
+
+  /**
+   * Checks whether a keyboard event matches a shortcut, with exactly the modifiers of the shortcut pressed.
+   *
+   * @param event - The keyboard event.
+   * @param shortcut - The shortcut, such as `Mod+Shift+K`.
+   * @returns Whether the event matches the shortcut.
+   */
+  static matches(event: KeyboardEvent, shortcut: string) {
+    const { key, modifiers } = KeyboardShortcutHelper.parse(shortcut);
+
+    return (
+      event.key.toLowerCase() === key &&
+      event.ctrlKey === modifiers.ctrl &&
+      event.metaKey === modifiers.meta &&
+      event.altKey === modifiers.alt &&
+      event.shiftKey === modifiers.shift
+    );
+  }
+
+  /**
+   * Formats a shortcut for display, with modifier glyphs on Apple platforms and modifier names elsewhere.
+   *
+   * @param shortcut - The shortcut, such as `Mod+Shift+K`.
+   * @returns The formatted shortcut, such as `⌘⇧K` or `Ctrl+Shift+K`.
+   */
+  static format(shortcut: string) {
+    const keys = shortcut.split("+");
+
+    if (KeyboardShortcutHelper.isApplePlatform())
+      return keys.map((key) => APPLE_SHORTCUT_GLYPHS[key.toLowerCase()] ?? key.toUpperCase()).join("");
+    return keys.map((key) => SHORTCUT_KEY_NAMES[key.toLowerCase()] ?? key).join("+");
+  }
+
+  /**
+   * Converts a shortcut to the `aria-keyshortcuts` format.
+   *
+   * @param shortcut - The shortcut, such as `Mod+Shift+K`.
+   * @returns The shortcut with standard modifier names, such as `Control+Shift+K`.
+   */
+  static toAriaKeyShortcuts(shortcut: string) {
+    return shortcut
+      .split("+")
+      .map((key) => {
+        const normalizedKey = key.toLowerCase();
+        if (normalizedKey === "mod") return KeyboardShortcutHelper.isApplePlatform() ? "Meta" : "Control";
+        if (normalizedKey === "ctrl") return "Control";
+        if (normalizedKey === "cmd") return "Meta";
+        return key;
+      })
+      .join("+");
+  }
+}
@@ -0,0 +1,124 @@
+export type ImageFormat = "avif" | "webp" | "jpeg" | "png";
+
+export type ImgSource = {
+  /** The media query the source applies to, for art direction. */
+  media?: string;
+  srcset: string;
+  sizes?: string;
+  /** The MIME type of the source, so browsers skip formats they cannot decode. */
+  type?: string;
+};
+
+/** Builds the URL of an image resized to a width and, optionally, converted to a format. */
+export type ImageUrlBuilder = (baseUrl: string, width: number, format?: ImageFormat) => string;
+
+export type LayoutBreakpoint = {
+  /** The minimum viewport width in pixels from which the breakpoint applies. */
+  minWidth: number;
+  /** The rendered width of the image from this breakpoint on, in pixels or as a CSS length like `50vw`. */
+  width: number | string;
+};
+
+export type ResponsiveSourceOptions = {
+  widths: number[];
+  /** The formats to add a source for, from the most to the least preferred. */
+  formats?: ImageFormat[];
+  media?: string;
+  sizes?: string;
+  urlBuilder?: ImageUrlBuilder;
+};
+
+const FORMAT_MIME_TYPES: Record<ImageFormat, string> = {
+  avif: "image/avif",
+  webp: "image/webp",
+  jpeg: "image/jpeg",
+  png: "image/png",
+};
+
+const DEFAULT_SIZE = "100vw";
+
+/**
+ * Builds the `srcset` and `sizes` of responsive images. URLs are built with the `w` and `format` query parameters by
+ * default, which a custom `ImageUrlBuilder` replaces for image CDNs or resizers with other URL schemes.
+ */
+export default class ResponsiveImageHelper {
+  /**
+   * Builds an image URL by adding the width and format as the `w` and `format` query parameters, keeping the existing
+   * query and hash of the base URL.
+   *
+   * @param baseUrl - The URL of the original image, absolute or relative.
+   * @param width - The width to resize the image to.
+   * @param format - The format to convert the image to.
+   * @returns The URL of the resized image.
+   */
+  static buildUrl(baseUrl: string, width: number, format?: ImageFormat) {
+    const hashIndex = baseUrl.indexOf("#");
+    const url = hashIndex === -1 ? baseUrl : baseUrl.slice(0, hashIndex);
+    const hash = hashIndex === -1 ? "" : baseUrl.slice(hashIndex);
+
+    const params = new URLSearchParams({ w: String(width) });
+    if (format) params.set("format", format);
+
+    return `${url}${url.includes("?") ? "&" : "?"}${params}${hash}`;
+  }
+
+  /**
+   * Generates a `srcset` with a width descriptor for each width.
+   *
+   * @param baseUrl - The URL of the original image.
+   * @param widths - The widths to offer, in pixels. Duplicates and non-positive widths are ignored.
+   * @param urlBuilder - The builder of the resized image URLs.
+   * @param format - The format of the images.
+   * @returns The `srcset`, ordered by width.
+   */
+  static getSrcset(
+    baseUrl: string,
+    widths: number[],
+    urlBuilder: ImageUrlBuilder = ResponsiveImageHelper.buildUrl,
+    format?: ImageFormat,
+  ) {
+    return [...new Set(widths.map(Math.round))]
+      .filter((width) => width > 0)
+      .sort((a, b) => a - b)
+      .map((width) => `${urlBuilder(baseUrl, width, format)} ${width}w`)
+      .join(", ");
+  }
+
+  /**
+   * Computes `sizes` from the widths the image is rendered at in a layout, as in a grid with one column on small
+   * screens and three on large ones.
+   *
+   * @param breakpoints - The rendered widths of the image by minimum viewport width, in any order.
+   * @param defaultWidth - The rendered width below the smallest breakpoint. Defaults to the full viewport width.
+   * @returns The `sizes`, with the widest breakpoint first, as browsers use the first matching condition.
+   */
+  static getSizes(breakpoints: LayoutBreakpoint[], defaultWidth: number | string = DEFAULT_SIZE) {
+    const conditions = [...breakpoints]
+      .sort((a, b) => b.minWidth - a.minWidth)
+      .map((breakpoint) => `(min-width: ${breakpoint.minWidth}px) ${toCssLength(breakpoint.width)}`);
+
+    return [...conditions, toCssLength(defaultWidth)].join(", ");
+  }
+
+  /**
+   * Generates the `<source>`s of an image, one per format, for format negotiation and, with `media`, art direction.
+   *
+   * @param baseUrl - The URL of the original image.
+   * @param options - The widths, formats, and media query of the sources.
+   * @returns The sources, in the order of the formats. A single source without a type when no formats are given.
+   */
+  static getSources(baseUrl: string, options: ResponsiveSourceOptions): ImgSource[] {
+    const formats = options.formats?.length ? options.formats : [undefined];
+
+    return formats.map((format) => ({
+      media: options.media,
+      srcset: ResponsiveImageHelper.getSrcset(baseUrl, options.widths, options.urlBuilder, format),
+      sizes: options.sizes,
+      type: format && FORMAT_MIME_TYPES[format],
+    }));
+  }
+}
+
+function toCssLength(width: number | string) {
+  return typeof width === "number" ? `${width}px` : width;
+}
@@ -0,0 +1,423 @@
+export type ParsedSvg = {
+  /** The `viewBox` of the root `<svg>` element, if any. */
+  viewBox?: string;
+  /** The presentation attributes of the root `<svg>` element, such as `fill` and `stroke-width`. */
+  attributes: Record<string, string>;
+  /** The markup inside the root `<svg>` element. */
+  content: string;
+};
+
+export type SvgColorOptions = {
+  /** The color replacing `currentColor`. When omitted, hardcoded colors are replaced with `currentColor` instead. */
+  fillColor?: string;
+  /** Whether to keep the colors of the SVG as they are. */
+  preserveFill?: boolean;
+};
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+// SVG elements kept by the sanitizer. Everything else is removed, including elements of other namespaces and elements
+// like `<p>` that end SVG content when the markup is parsed again as HTML.
+const ALLOWED_ELEMENTS = new Set([
+  "a",
+  "animate",
+  "animateMotion",
+  "animateTransform",
+  "circle",
+  "clipPath",
+  "defs",
+  "desc",
+  "ellipse",
+  "feBlend",
+  "feColorMatrix",
+  "feComponentTransfer",
+  "feComposite",
+  "feConvolveMatrix",
+  "feDiffuseLighting",
+  "feDisplacementMap",
+  "feDistantLight",
+  "feDropShadow",
+  "feFlood",
+  "feFuncA",
+  "feFuncB",
+  "feFuncG",
+  "feFuncR",
+  "feGaussianBlur",
+  "feMerge",
+  "feMergeNode",
+  "feMorphology",
+  "feOffset",
+  "fePointLight",
+  "feSpecularLighting",
+  "feSpotLight",
+  "feTile",
+  "feTurbulence",
+  "filter",
+  "g",
+  "line",
+  "linearGradient",
+  "marker",
+  "mask",
+  "mpath",
+  "path",
+  "pattern",
+  "polygon",
+  "polyline",
+  "radialGradient",
+  "rect",
+  "set",
+  "stop",
+  "style",
+  "svg",
+  "symbol",
+  "text",
+  "textPath",
+  "title",
+  "tspan",
+  "use",
+]);
+// Core, presentation, geometry, gradient, filter, and animation attributes kept by the sanitizer, along with `data-*`
+// and `aria-*` attributes. Everything else is removed, such as event handlers, `srcset`, or `action`.
+const ALLOWED_ATTRIBUTES = new Set([
+  "accumulate",
+  "additive",
+  "alignment-baseline",
+  "amplitude",
+  "attributeName",
+  "attributeType",
+  "azimuth",
+  "baseFrequency",
+  "begin",
+  "bias",
+  "by",
+  "calcMode",
+  "class",
+  "clip-path",
+  "clip-rule",
+  "clipPathUnits",
+  "color",
+  "color-interpolation-filters",
+  "cx",
+  "cy",
+  "d",
+  "diffuseConstant",
+  "display",
+  "divisor",
+  "dominant-baseline",
+  "dur",
+  "dx",
+  "dy",
+  "edgeMode",
+  "elevation",
+  "end",
+  "exponent",
+  "fill",
+  "fill-opacity",
+  "fill-rule",
+  "filter",
+  "filterUnits",
+  "flood-color",
+  "flood-opacity",
+  "font-family",
+  "font-size",
+  "font-style",
+  "font-weight",
+  "fr",
+  "from",
+  "fx",
+  "fy",
+  "gradientTransform",
+  "gradientUnits",
+  "height",
+  "href",
+  "id",
+  "in",
+  "in2",
+  "intercept",
+  "k1",
+  "k2",
+  "k3",
+  "k4",
+  "kernelMatrix",
+  "keyPoints",
+  "keySplines",
+  "keyTimes",
+  "lengthAdjust",
+  "letter-spacing",
+  "lighting-color",
+  "marker-end",
+  "marker-mid",
+  "marker-start",
+  "markerHeight",
+  "markerUnits",
+  "markerWidth",
+  "mask",
+  "maskContentUnits",
+  "maskUnits",
+  "max",
+  "min",
+  "mode",
+  "numOctaves",
+  "offset",
+  "opacity",
+  "operator",
+  "order",
+  "orient",
+  "overflow",
+  "paint-order",
+  "path",
+  "pathLength",
+  "patternContentUnits",
+  "patternTransform",
+  "patternUnits",
+  "points",
+  "pointsAtX",
+  "pointsAtY",
+  "pointsAtZ",
+  "preserveAspectRatio",
+  "primitiveUnits",
+  "r",
+  "radius",
+  "refX",
+  "refY",
+  "repeatCount",
+  "repeatDur",
+  "restart",
+  "result",
+  "role",
+  "rotate",
+  "rx",
+  "ry",
+  "scale",
+  "seed",
+  "shape-rendering",
+  "slope",
+  "specularConstant",
+  "specularExponent",
+  "spreadMethod",
+  "startOffset",
+  "stdDeviation",
+  "stitchTiles",
+  "stop-color",
+  "stop-opacity",
+  "stroke",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-miterlimit",
+  "stroke-opacity",
+  "stroke-width",
+  "style",
+  "surfaceScale",
+  "tableValues",
+  "text-anchor",
+  "text-decoration",
+  "textLength",
+  "to",
+  "transform",
+  "transform-origin",
+  "type",
+  "values",
+  "vector-effect",
+  "version",
+  "viewBox",
+  "visibility",
+  "width",
+  "word-spacing",
+  "x",
+  "x1",
+  "x2",
+  "xChannelSelector",
+  "xlink:href",
+  "xml:space",
+  "xmlns",
+  "xmlns:xlink",
+  "y",
+  "y1",
+  "y2",
+  "yChannelSelector",
+  "z",
+]);
+const ANIMATION_ELEMENTS = ["animate", "animateMotion", "animateTransform", "set"];
+const REFERENCE_ATTRIBUTES = ["href", "xlink:href"];
+const COLOR_PROPERTIES = ["fill", "stroke", "stop-color"];
+// Root attributes hoisted onto the rendered element, so they keep applying to the content
+const HOISTED_ATTRIBUTES = [
+  "fill",
+  "fill-opacity",
+  "fill-rule",
+  "clip-rule",
+  "color",
+  "opacity",
+  "preserveAspectRatio",
+  "stroke",
+  "stroke-dasharray",
+  "stroke-linecap",
+  "stroke-linejoin",
+  "stroke-miterlimit",
+  "stroke-opacity",
+  "stroke-width",
+];
+// Layers of duotone icons, colored through the `--ac-icon-primary` and `--ac-icon-secondary` custom properties
+const COLOR_LAYER_SELECTORS = {
+  primary: '[data-layer="primary"], .primary, .fa-primary',
+  secondary: '[data-layer="secondary"], .secondary, .fa-secondary',
+};
+// External resources and scripts in styles, as in `url(https://...)`, `url(javascript:...)`, or `@import`, while
+// `url(#gradient)` stays allowed
+const UNSAFE_STYLE_PATTERN = /@import|expression\s*\(|javascript:|url\(\s*['"]?\s*(?!#)/i;
+
+/** Parses and sanitizes SVG markup, so icons can be rendered into an existing `<svg>` or `<symbol>` safely. */
+export default class SvgHelper {
+  /**
+   * Parses SVG markup into the `viewBox`, the presentation attributes, and the content of its root element, removing
+   * scripts, event handlers, and references to external resources.
+   *
+   * @param svg - The SVG markup.
+   * @param colorOptions - How to recolor the SVG. Defaults to replacing hardcoded colors with `currentColor`.
+   * @returns The parsed SVG, with empty content if the markup is not a well-formed SVG document. HTML-only syntax, like
+   *   `&nbsp;` or unquoted attributes, is not well-formed.
+   */
+  static parse(svg: string, colorOptions: SvgColorOptions = {}): ParsedSvg {
+    const root = new DOMParser().parseFromString(svg, "image/svg+xml").documentElement;
+    // Browsers report malformed markup with a `<parsererror>` root, or one inside the `<svg>` root
+    const parserError = root.nodeName === "parsererror" ? root : root.querySelector("parsererror");
+    if (root.nodeName !== "svg" || parserError) {
+      //eslint-disable-next-line no-console
+      console.warn("SvgHelper: invalid SVG markup, which must be well-formed XML", parserError?.textContent ?? svg);
+      return { attributes: {}, content: "" };
+    }
+
+    SvgHelper.sanitize(root);
+    if (!colorOptions.preserveFill) SvgHelper.recolor(root, colorOptions.fillColor);
+    SvgHelper.applyColorLayers(root);
+
+    const attributes: Record<string, string> = {};
+    for (const name of HOISTED_ATTRIBUTES) {
+      const value = root.getAttribute(name);
+      if (value !== null) attributes[name] = value;
+    }
+
+    return { viewBox: root.getAttribute("viewBox") ?? undefined, attributes, content: root.innerHTML };
+  }
+
+  /**
+   * Keeps only known SVG elements and attributes in an SVG element and its descendants, which removes scripts, event
+   * handlers, and HTML elements, and removes references to external resources. Comments and processing instructions are
+   * removed too, as the content is parsed again as HTML, where markup hidden inside them would come alive.
+   *
+   * @param root - The SVG element to sanitize in place.
+   */
+  static sanitize(root: Element) {
+    removeNonContentNodes(root);
+
+    for (const element of Array.from(root.querySelectorAll("*")))
+      if (element.namespaceURI !== SVG_NAMESPACE || !ALLOWED_ELEMENTS.has(element.localName)) element.remove();
+
+    // Animations could set attributes that the attribute checks below never see
+    for (const element of Array.from(root.querySelectorAll(ANIMATION_ELEMENTS.join(",")))) {
+      const attributeName = element.getAttribute("attributeName") ?? "";
+      if (!isAllowedAttribute(attributeName) || REFERENCE_ATTRIBUTES.includes(attributeName)) element.remove();
+    }
+
+    for (const element of Array.from(root.querySelectorAll("style")))
+      if (UNSAFE_STYLE_PATTERN.test(element.textContent ?? "")) element.remove();
+
+    for (const element of [root, ...Array.from(root.querySelectorAll("*"))]) {
+      for (const attribute of Array.from(element.attributes)) {
+        const { name } = attribute;
+        const value = attribute.value.trim();
+
+        const isExternalReference = REFERENCE_ATTRIBUTES.includes(name) && !value.startsWith("#");
+        const isUnsafeStyle = name === "style" && UNSAFE_STYLE_PATTERN.test(value);
+        if (!isAllowedAttribute(name) || isExternalReference || isUnsafeStyle) element.removeAttribute(name);
+      }
+    }
+  }
+
+  /**
+   * Recolors the fills, strokes, and gradient stops of an SVG element and its descendants, both in attributes and in
+   * inline styles. `none` and references such as `url(#gradient)` are kept, as gradients are recolored through their
+   * stops.
+   *
+   * @param root - The SVG element to recolor in place.
+   * @param fillColor - The color replacing `currentColor`. When omitted, hardcoded colors are replaced with
+   *   `currentColor` instead, and fills are removed so they inherit it from the root.
+   */
+  static recolor(root: Element, fillColor?: string) {
+    for (const element of [root, ...Array.from(root.querySelectorAll("*"))]) {
+      const style = (element as SVGElement).style as CSSStyleDeclaration | undefined;
+
+      for (const property of COLOR_PROPERTIES) {
+        const attributeValue = element.getAttribute(property);
+        if (attributeValue !== null) {
+          const color = getRecoloredValue(property, attributeValue, fillColor);
+          if (color === undefined) element.removeAttribute(property);
+          else element.setAttribute(property, color);
+        }
+
+        const styleValue = style?.getPropertyValue(property);
+        if (styleValue) {
+          const color = getRecoloredValue(property, styleValue, fillColor);
+          if (color === undefined) style!.removeProperty(property);
+          else style!.setProperty(property, color);
+        }
+      }
+    }
+
+    if (!root.hasAttribute("fill")) root.setAttribute("fill", fillColor ?? "currentColor");
+  }
+
+  /**
+   * Colors the primary and secondary layers of a duotone icon through custom properties, so the icon element can set
+   * `--ac-icon-primary`, `--ac-icon-secondary`, and `--ac-icon-secondary-opacity`. Layers are marked with a
+   * `data-layer="primary"` or `data-layer="secondary"` attribute, or a `primary` or `secondary` class. Without the
+   * custom properties, layers keep their colors.
+   *
+   * @param root - The SVG element whose layers to color in place.
+   */
+  static applyColorLayers(root: Element) {
+    for (const [layer, selector] of Object.entries(COLOR_LAYER_SELECTORS)) {
+      for (const element of Array.from(root.querySelectorAll(selector))) {
+        const style = (element as SVGElement).style as CSSStyleDeclaration | undefined;
+        if (!style) continue;
+
+        for (const property of ["fill", "stroke"]) {
+          const value = style.getPropertyValue(property) || element.getAttribute(property);
+          if (value?.trim().toLowerCase() === "none" || (property === "stroke" && !value)) continue;
+
+          style.setProperty(property, `var(--ac-icon-${layer}, ${value || "inherit"})`);
+        }
+        if (layer === "secondary") style.setProperty("opacity", "var(--ac-icon-secondary-opacity, 1)");
+      }
+    }
+  }
+}
+
+function isAllowedAttribute(name: string) {
+  return ALLOWED_ATTRIBUTES.has(name) || name.startsWith("data-") || name.startsWith("aria-");
+}
+
+/**
+ * Removes every node that is neither an element nor text, such as comments and processing instructions. CDATA sections
+ * are turned into text, so the styles they usually hold are kept and serialized escaped.
+ */
+function removeNonContentNodes(parent: Node) {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === Node.ELEMENT_NODE) removeNonContentNodes(node);
+    else if (node.nodeType === Node.CDATA_SECTION_NODE)
+      parent.replaceChild(parent.ownerDocument!.createTextNode(node.nodeValue ?? ""), node);
+    else if (node.nodeType !== Node.TEXT_NODE) parent.removeChild(node);
+  }
+}
+
+/** Gets the new value of a color property, or undefined to remove it. */
+function getRecoloredValue(property: string, value: string, fillColor: string | undefined) {
+  const normalizedValue = value.trim().toLowerCase();
+  if (normalizedValue === "none" || normalizedValue.startsWith("url(")) return value;
+
+  if (fillColor) return normalizedValue === "currentcolor" ? fillColor : value;
+
+  if (normalizedValue === "currentcolor") return value;
+  return property === "fill" ? undefined : "currentColor";
+}
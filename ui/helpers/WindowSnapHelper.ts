@@ -0,0 +1,120 @@
+import type { Offset } from "acore-ts/ui/models/Offset";
+
+export type SnapRect = { top: number; left: number; width: number; height: number };
+
+export type SnapTarget = {
+  kind: "maximize" | "dockLeft" | "dockRight" | "snap";
+  rect: SnapRect;
+};
+
+export type SnapOptions = {
+  /** The distance in pixels from a screen edge at which the pointer docks the window. Defaults to 16. */
+  edgeThreshold?: number;
+  /** The grid size in pixels that window positions snap to. Grid snapping is disabled when omitted. */
+  gridSize?: number;
+  /** Whether windows snap to the edges of other windows. Defaults to true. */
+  snapToWindows?: boolean;
+  /** The distance in pixels at which window edges snap to each other. Defaults to 8. */
+  windowThreshold?: number;
+};
+
+const DEFAULT_EDGE_THRESHOLD = 16;
+const DEFAULT_WINDOW_THRESHOLD = 8;
+
+export default class WindowSnapHelper {
+  /**
+   * Calculates where a window being dragged would snap to.
+   *
+   * @param pointer - The pointer position in viewport coordinates.
+   * @param rect - The current window rectangle.
+   * @param otherRects - The rectangles of the other windows to snap to.
+   * @param options - The snap options.
+   * @param offset - The offset kept free around the viewport, such as the one used for maximizing.
+   * @returns The snap target, or null if the window would be dropped where it is.
+   */
+  static getSnapTarget(
+    pointer: { x: number; y: number },
+    rect: SnapRect,
+    otherRects: SnapRect[],
+    options: SnapOptions = {},
+    offset?: Offset,
+  ): SnapTarget | null {
+    const edgeThreshold = options.edgeThreshold ?? DEFAULT_EDGE_THRESHOLD;
+    const area = WindowSnapHelper.getAvailableArea(offset);
+
+    if (pointer.y <= area.top + edgeThreshold) return { kind: "maximize", rect: area };
+    if (pointer.x <= area.left + edgeThreshold) return { kind: "dockLeft", rect: { ...area, width: area.width / 2 } };
+    if (pointer.x >= area.left + area.width - edgeThreshold)
+      return { kind: "dockRight", rect: { ...area, left: area.left + area.width / 2, width: area.width / 2 } };
+
+    let { top, left } = rect;
+    if (options.gridSize) {
+      top = Math.round(top / options.gridSize) * options.gridSize;
+      left = Math.round(left / options.gridSize) * options.gridSize;
+    }
+    if (options.snapToWindows ?? true) {
+      const windowThreshold = options.windowThreshold ?? DEFAULT_WINDOW_THRESHOLD;
+      // Only windows beside each other share an edge, a window far below has no left or right edge to line up with
+      const rowRects = otherRects.filter((other) =>
+        areRangesNear(top, rect.height, other.top, other.height, windowThreshold),
+      );
+      const columnRects = otherRects.filter((other) =>
+        areRangesNear(left, rect.width, other.left, other.width, windowThreshold),
+      );
+      left = WindowSnapHelper.snapToEdges(left, rect.width, rowRects.flatMap(getHorizontalEdges), windowThreshold);
+      top = WindowSnapHelper.snapToEdges(top, rect.height, columnRects.flatMap(getVerticalEdges), windowThreshold);
+    }
+
+    if (top === rect.top && left === rect.left) return null;
+
+    return { kind: "snap", rect: { top, left, width: rect.width, height: rect.height } };
+  }
+
+  /**
+   * Gets the viewport area left after applying the offset.
+   *
+   * @param offset - The offset kept free around the viewport.
+   */
+  static getAvailableArea(offset?: Offset): SnapRect {
+    const top = offset?.top ?? 0;
+    const left = offset?.left ?? 0;
+
+    return {
+      top,
+      left,
+      width: window.innerWidth - left - (offset?.right ?? 0),
+      height: window.innerHeight - top - (offset?.bottom ?? 0),
+    };
+  }
+
+  /** Snaps either the start or the end of a segment to the closest edge within the threshold. */
+  private static snapToEdges(start: number, length: number, edges: number[], threshold: number) {
+    let snapped = start;
+    let closestDistance = threshold;
+
+    for (const edge of edges) {
+      for (const candidate of [edge, edge - length]) {
+        const distance = Math.abs(candidate - start);
+        if (distance > closestDistance) continue;
+
+        closestDistance = distance;
+        snapped = candidate;
+      }
+    }
+
+    return snapped;
+  }
+}
+
+/** Checks whether two segments overlap or are apart by at most the threshold. */
+function areRangesNear(startA: number, lengthA: number, startB: number, lengthB: number, threshold: number) {
+  return startA <= startB + lengthB + threshold && startB <= startA + lengthA + threshold;
+}
+
+function getHorizontalEdges(rect: SnapRect) {
+  return [rect.left, rect.left + rect.width];
+}
+
+function getVerticalEdges(rect: SnapRect) {
+  return [rect.top, rect.top + rect.height];
+}